@@ -0,0 +1,84 @@
+// Local stand-in for the Etherscan V2 API, for exercising the proxy without a key or rate limits:
+//   pnpm mock:etherscan
+//   ETHERSCAN_V2_BASE=http://localhost:4010/v2/api ETHERSCAN_API_KEY=mock netlify dev
+// Every address gets the same deterministic $BRACKY history; each upstream hit is logged so cache behaviour is visible.
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.MOCK_ETHERSCAN_PORT || 4010);
+const TRANSFERS = Number(process.env.MOCK_TRANSFERS || 2500);
+const START_BLOCK = 20_000_000;
+const START_TIME = 1_720_000_000;
+const COUNTERPARTY = "0x1111111111111111111111111111111111111111";
+
+let owner = null;
+let history = [];
+let hits = 0;
+
+// Two transfers every other block, alternating direction, 1-100 tokens each
+const makeTransfer = (i, address) => {
+  const blockNumber = START_BLOCK + Math.floor(i / 2) * 2;
+  const incoming = i % 3 !== 0;
+  return {
+    blockNumber: String(blockNumber),
+    timeStamp: String(START_TIME + (blockNumber - START_BLOCK) * 60),
+    hash: `0x${(i + 1).toString(16).padStart(64, "0")}`,
+    logIndex: String(i % 2),
+    from: incoming ? COUNTERPARTY : address,
+    to: incoming ? address : COUNTERPARTY,
+    value: `${(i % 100) + 1}000000000000000000`,
+    contractAddress: "0x06f71fb90f84b35302d132322a3c90e4477333b0",
+    tokenName: "Bracky",
+    tokenSymbol: "BRACKY",
+    tokenDecimal: "18",
+  };
+};
+
+const historyFor = (address) => {
+  if (owner !== address) {
+    owner = address;
+    history = Array.from({ length: TRANSFERS }, (_, i) => makeTransfer(i, address));
+  }
+  return history;
+};
+
+const json = (res, body) => {
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const q = Object.fromEntries(url.searchParams);
+  hits++;
+  console.log(`#${hits} ${q.module}/${q.action} startblock=${q.startblock ?? "-"} page=${q.page ?? "-"}`);
+
+  // /append?count=N simulates new transfers landing on chain
+  if (url.pathname === "/append") {
+    const count = Number(q.count || 1);
+    for (let i = 0; i < count; i++) history.push(makeTransfer(history.length, owner ?? COUNTERPARTY));
+    return json(res, { appended: count, total: history.length });
+  }
+
+  const address = (q.address || "").toLowerCase();
+  if (q.action === "tokenbalance") {
+    const balance = historyFor(address).reduce(
+      (sum, tx) => (tx.to === address ? sum + BigInt(tx.value) : sum - BigInt(tx.value)),
+      0n,
+    );
+    return json(res, { status: "1", message: "OK", result: String(balance < 0n ? 0n : balance) });
+  }
+
+  const start = Number(q.startblock || 0);
+  const end = Number(q.endblock || Number.MAX_SAFE_INTEGER);
+  const offset = Number(q.offset || 10_000);
+  const page = Number(q.page || 1);
+  if (page * offset > 10_000) {
+    return json(res, { status: "0", message: "NOTOK", result: "Result window is too large" });
+  }
+
+  const rows = historyFor(address).filter((tx) => Number(tx.blockNumber) >= start && Number(tx.blockNumber) <= end);
+  if (q.sort === "desc") rows.reverse();
+  const result = rows.slice((page - 1) * offset, page * offset);
+  if (result.length === 0) return json(res, { status: "0", message: "No transactions found", result: [] });
+  return json(res, { status: "1", message: "OK", result });
+}).listen(PORT, () => console.log(`Mock Etherscan on http://localhost:${PORT}/v2/api (${TRANSFERS} transfers)`));
@@ -1,47 +1,22 @@
-exports.handler = async (event) => {
-  try {
-    // Server-side API key (set in Netlify env vars: ETHERSCAN_API_KEY)
-    const ETHERSCAN_KEY = process.env.ETHERSCAN_API_KEY;
-    if (!ETHERSCAN_KEY) {
-      return {
-        statusCode: 500,
-        body: JSON.stringify({ error: "Missing ETHERSCAN_API_KEY on server" }),
-      };
-    }
-
-    const qs = event.queryStringParameters || {};
-
-    // Basic validation: require module & action for Etherscan API V2
-    if (!qs.module || !qs.action) {
-      return {
-        statusCode: 400,
-        body: JSON.stringify({ error: "Missing required query parameters: module and action" }),
-      };
-    }
+const { queryEtherscan } = require("../lib/etherscan-client");
+const { ProxyError, checkRateLimit, clientIp, errorResponse } = require("../lib/proxy-guard");
 
-    // Build params and append apikey server-side (do NOT accept apikey from client)
-    const params = new URLSearchParams(qs);
-    params.set("apikey", ETHERSCAN_KEY);
+const respond = (statusCode, body, cacheStatus, headers = {}) => ({
+  statusCode,
+  headers: { "Content-Type": "application/json", "X-Cache": cacheStatus, ...headers },
+  body: typeof body === "string" ? body : JSON.stringify(body),
+});
 
-    // Use V2 base URL. You can override with ETHERSCAN_V2_BASE if needed.
-    const base = process.env.ETHERSCAN_V2_BASE || "https://api.etherscan.io/v2/api";
-    const targetUrl = `${base}?${params.toString()}`;
-
-    // Forward request to Etherscan V2
-    const resp = await fetch(targetUrl);
-    const text = await resp.text();
-    const statusCode = resp.ok ? 200 : resp.status;
-
-    return {
-      statusCode,
-      headers: { "Content-Type": "application/json" },
-      body: text,
-    };
+exports.handler = async (event) => {
+  try {
+    // Only the calls the tracker makes are forwarded; the key must not turn this into an open relay
+    checkRateLimit(clientIp(event));
+    const result = await queryEtherscan(event, event.queryStringParameters || {});
+    const headers = result.cache === "HIT" || result.cache === "STALE" ? { Age: String(result.age) } : {};
+    return respond(200, result.text ?? result.body, result.cache, headers);
   } catch (err) {
+    if (err instanceof ProxyError) return errorResponse(err);
     console.error("Etherscan proxy error:", err);
-    return {
-      statusCode: 500,
-      body: JSON.stringify({ error: err.message || "Proxy error" }),
-    };
+    return errorResponse(new ProxyError("INTERNAL", err.message || "Proxy error", 500));
   }
-};
\ No newline at end of file
+};
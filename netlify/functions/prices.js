@@ -0,0 +1,86 @@
+const fs = require("fs");
+const path = require("path");
+const { chainOf, findToken } = require("../lib/tokens");
+
+const COINGECKO_BASE = process.env.COINGECKO_API_BASE || "https://api.coingecko.com/api/v3";
+// The public API only serves a year of daily history
+const MAX_DAYS = 365;
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const FIXTURE_DIR = path.join(__dirname, "..", "fixtures");
+
+const json = (statusCode, body, maxAge = 0) => ({
+  statusCode,
+  headers: {
+    "Content-Type": "application/json",
+    ...(maxAge > 0 ? { "Cache-Control": `public, max-age=${maxAge}` } : {}),
+  },
+  body: JSON.stringify(body),
+});
+
+const dayKey = (ms) => new Date(ms).toISOString().slice(0, 10);
+
+// One series per token per warm instance; daily prices only change once a day
+const cached = new Map();
+
+// Offline series live next to each other as fixtures/<token id>-usd.json
+const readFixture = (token) => {
+  const file = path.join(FIXTURE_DIR, `${token.id}-usd.json`);
+  if (!fs.existsSync(file)) throw new Error(`No price fixture for ${token.id}`);
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+};
+
+// CoinGecko returns [ms, price] points; keep the last one of each UTC day
+const fetchCoinGecko = async (token) => {
+  const platform = chainOf(token).coingeckoPlatform;
+  const url = `${COINGECKO_BASE}/coins/${platform}/contract/${token.contract.toLowerCase()}/market_chart?vs_currency=usd&days=${MAX_DAYS}&interval=daily`;
+  const headers = process.env.COINGECKO_API_KEY ? { "x-cg-demo-api-key": process.env.COINGECKO_API_KEY } : {};
+  const resp = await fetch(url, { headers });
+  if (!resp.ok) throw new Error(`CoinGecko responded ${resp.status}`);
+  const data = await resp.json();
+  if (!Array.isArray(data.prices)) throw new Error("CoinGecko response has no prices");
+
+  const byDay = new Map();
+  for (const [ms, usd] of data.prices) {
+    if (Number.isFinite(usd)) byDay.set(dayKey(ms), usd);
+  }
+  return { source: "coingecko", prices: [...byDay].map(([date, usd]) => ({ date, usd })) };
+};
+
+const loadSeries = async (token) => {
+  if (process.env.PRICE_SOURCE === "fixture") return readFixture(token);
+  const hit = cached.get(token.id);
+  if (hit && Date.now() - hit.storedAt < CACHE_TTL_MS) return hit.series;
+  const series = await fetchCoinGecko(token);
+  cached.set(token.id, { series, storedAt: Date.now() });
+  return series;
+};
+
+// GET ?token=<registry id>&from=YYYY-MM-DD → { currency: "usd", source, prices: [{ date: "YYYY-MM-DD", usd }] },
+// UTC days, oldest first.
+exports.handler = async (event) => {
+  const qs = event.queryStringParameters || {};
+  if (!qs.token) {
+    return json(400, { error: "`token` is required" });
+  }
+  const token = findToken(qs.token);
+  if (!token) {
+    return json(400, { error: `Unknown token: ${qs.token}` });
+  }
+  if (qs.from && !/^\d{4}-\d{2}-\d{2}$/.test(qs.from)) {
+    return json(400, { error: "`from` must be a YYYY-MM-DD date" });
+  }
+  const since = (series) => series.prices.filter((point) => !qs.from || point.date >= qs.from);
+
+  try {
+    const series = await loadSeries(token);
+    return json(200, { currency: "usd", source: series.source, prices: since(series) }, CACHE_TTL_MS / 1000);
+  } catch (err) {
+    console.error("Price lookup failed:", err);
+    // An out-of-date series beats none; prices only move the USD figures
+    const stale = cached.get(token.id);
+    if (stale) {
+      return json(200, { currency: "usd", source: stale.series.source, stale: true, prices: since(stale.series) });
+    }
+    return json(502, { error: "Price data is unavailable right now" });
+  }
+};
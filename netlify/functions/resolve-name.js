@@ -0,0 +1,83 @@
+const { createPublicClient, http, toCoinType } = require("viem");
+const { base, mainnet } = require("viem/chains");
+const { normalize } = require("viem/ens");
+const { fidForUsername, verifiedAddresses } = require("../lib/farcaster-hub");
+
+// Reverse lookups are one RPC call each; cap them per request
+const MAX_REVERSE = 50;
+
+// ENS and Basenames both resolve through the mainnet universal resolver (Basenames via CCIP-read)
+const client = createPublicClient({ chain: mainnet, transport: http(process.env.MAINNET_RPC_URL || undefined) });
+
+const isAddress = (value) => /^0x[a-fA-F0-9]{40}$/.test(value || "");
+
+const json = (statusCode, body, maxAge = 0) => ({
+  statusCode,
+  headers: {
+    "Content-Type": "application/json",
+    ...(maxAge > 0 ? { "Cache-Control": `public, max-age=${maxAge}` } : {}),
+  },
+  body: JSON.stringify(body),
+});
+
+// `@alice` or `alice` is a Farcaster username; anything with a dot is an ENS name (incl. alice.base.eth)
+const resolveName = async (raw) => {
+  const name = raw.trim().toLowerCase();
+  if (name.startsWith("@") || !name.includes(".")) {
+    const username = name.replace(/^@/, "");
+    const fid = await fidForUsername(username);
+    if (fid === null) return { name: `@${username}`, kind: "farcaster", addresses: [] };
+    return { name: `@${username}`, kind: "farcaster", fid, addresses: await verifiedAddresses(fid) };
+  }
+
+  const address = await client.getEnsAddress({ name: normalize(name) });
+  return { name, kind: name.endsWith(".base.eth") ? "basename" : "ens", addresses: address ? [address] : [] };
+};
+
+// Primary name for an address: its Basename if set, otherwise its mainnet ENS name
+const reverseLookup = async (address) => {
+  const basename = await client.getEnsName({ address, coinType: toCoinType(base.id) }).catch(() => null);
+  if (basename) return basename;
+  return client.getEnsName({ address }).catch(() => null);
+};
+
+// GET ?name=alice.base.eth → { name, kind, addresses }
+// GET ?fid=123             → { fid, addresses }, the Farcaster user's verified addresses
+// GET ?addresses=0xa,0xb   → { names: { "0xa": "alice.eth" } }
+exports.handler = async (event) => {
+  const qs = event.queryStringParameters || {};
+
+  try {
+    if (qs.name) {
+      return json(200, await resolveName(qs.name), 300);
+    }
+
+    if (qs.fid) {
+      if (!/^\d{1,10}$/.test(qs.fid)) return json(400, { error: "fid must be a number" });
+      const fid = Number(qs.fid);
+      return json(200, { fid, addresses: await verifiedAddresses(fid) }, 300);
+    }
+
+    if (qs.addresses) {
+      const addresses = [...new Set(qs.addresses.toLowerCase().split(","))].filter(isAddress);
+      if (addresses.length > MAX_REVERSE) {
+        return json(400, { error: `At most ${MAX_REVERSE} addresses per request` });
+      }
+      const results = await Promise.all(addresses.map(reverseLookup));
+      const names = {};
+      addresses.forEach((address, i) => {
+        if (results[i]) names[address] = results[i];
+      });
+      return json(200, { names }, 3600);
+    }
+
+    return json(400, { error: "Missing required query parameter: name, fid or addresses" });
+  } catch (err) {
+    // viem errors carry a multi-line report in `message`; `shortMessage` is the one-line summary
+    const message = err.shortMessage || err.message || "Resolver error";
+    console.error("Name resolver error:", message);
+    // normalize() throws on names that can never be valid
+    const statusCode = /normaliz|invalid|illegal|disallowed/i.test(message) ? 400 : 500;
+    return json(statusCode, { error: message });
+  }
+};
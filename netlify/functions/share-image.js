@@ -0,0 +1,85 @@
+const path = require("path");
+const { Resvg } = require("@resvg/resvg-js");
+const { DEFAULT_TOKEN, chainOf, findToken } = require("../lib/tokens");
+const { ProxyError, errorResponse } = require("../lib/proxy-guard");
+const { isAddress, fetchWalletSummary, formatCompact } = require("../lib/wallet-summary");
+
+// Bundled so text renders on hosts without system fonts (see included_files in netlify.toml)
+const FONT_DIR = path.join(path.dirname(require.resolve("dejavu-fonts-ttf/package.json")), "ttf");
+const FONT_FILES = [path.join(FONT_DIR, "DejaVuSans.ttf"), path.join(FONT_DIR, "DejaVuSans-Bold.ttf")];
+
+// Farcaster embeds require a 3:2 image
+const WIDTH = 1200;
+const HEIGHT = 800;
+
+const escapeXml = (s) => String(s).replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+const renderSvg = ({ heading, title, balance, change, changeLabel, positive }) => `
+<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">
+  <defs>
+    <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0%" stop-color="#2563eb"/>
+      <stop offset="100%" stop-color="#3b82f6"/>
+    </linearGradient>
+  </defs>
+  <rect width="100%" height="100%" fill="url(#bg)"/>
+  <rect x="60" y="200" width="1080" height="520" rx="32" fill="#ffffff"/>
+  <text x="60" y="120" font-family="DejaVu Sans" font-weight="bold" font-size="64" fill="#ffffff">${escapeXml(heading)}</text>
+  <text x="60" y="170" font-family="DejaVu Sans" font-size="32" fill="#dbeafe">${escapeXml(title)}</text>
+  <text x="120" y="300" font-family="DejaVu Sans" font-size="36" fill="#4b5563">Current Balance</text>
+  <text x="120" y="410" font-family="DejaVu Sans" font-weight="bold" font-size="110" fill="#ca8a04">${escapeXml(balance)}</text>
+  <text x="120" y="510" font-family="DejaVu Sans" font-size="36" fill="#4b5563">${escapeXml(changeLabel)}</text>
+  <text x="120" y="620" font-family="DejaVu Sans" font-weight="bold" font-size="110" fill="${positive ? "#16a34a" : "#dc2626"}">${escapeXml(change)}</text>
+</svg>`;
+
+const png = (svg) =>
+  new Resvg(svg, {
+    fitTo: { mode: "width", value: WIDTH },
+    font: { fontFiles: FONT_FILES, loadSystemFonts: false, defaultFontFamily: "DejaVu Sans" },
+  })
+    .render()
+    .asPng();
+
+exports.handler = async (event) => {
+  const qs = event.queryStringParameters || {};
+  const address = (qs.address || "").split(",")[0];
+  // Links for the default token carry no id; an unknown one still gets a card, for the default token
+  const token = findToken(qs.token) || DEFAULT_TOKEN;
+
+  // Without a wallet there is nothing to summarize; fall back to the static site card
+  if (!isAddress(address)) {
+    return { statusCode: 302, headers: { Location: "/OG.png" }, body: "" };
+  }
+
+  try {
+    const summary = await fetchWalletSummary(event, address, { range: qs.range, from: qs.from, to: qs.to }, token);
+    const svg = renderSvg({
+      heading: `$${token.symbol} Tracker`,
+      title: `${address.slice(0, 6)}...${address.slice(-4)} on ${chainOf(token).name}`,
+      balance: `${formatCompact(summary.balance, summary.decimals)} $${token.symbol}`,
+      change: formatCompact(summary.netChange, summary.decimals, true),
+      // Busy wallets are summed over their newest transfers only; say so rather than show a confident wrong number
+      changeLabel: `${summary.label} Net Change${summary.partial ? " (latest transfers only)" : ""}`,
+      positive: summary.netChange >= 0n,
+    });
+
+    return {
+      statusCode: 200,
+      headers: {
+        "Content-Type": "image/png",
+        // Embeds are re-fetched by every client; a short cache keeps balances fresh without hammering Etherscan
+        "Cache-Control": "public, max-age=300",
+      },
+      body: png(svg).toString("base64"),
+      isBase64Encoded: true,
+    };
+  } catch (err) {
+    // Rate limited or refused by the proxy's policy: same status and body as the proxy would answer
+    if (err instanceof ProxyError) return errorResponse(err);
+    console.error("Share image error:", err);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: err.message || "Share image error" }),
+    };
+  }
+};
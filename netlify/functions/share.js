@@ -0,0 +1,82 @@
+const { isAddress } = require("../lib/wallet-summary");
+
+const DEFAULT_SITE_URL = "https://brackytracky.netlify.app";
+
+const escapeHtml = (s) => String(s).replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+// Only forward the query parameters the app understands
+const APP_PARAMS = ["address", "token", "range", "from", "to", "tz", "view", "wallet"];
+
+// Share landing page: serves Farcaster / Open Graph embed tags for one wallet, then hands browsers to the SPA
+exports.handler = async (event) => {
+  const siteUrl = process.env.URL || DEFAULT_SITE_URL;
+  const qs = event.queryStringParameters || {};
+
+  const params = new URLSearchParams();
+  for (const key of APP_PARAMS) {
+    if (qs[key]) params.set(key, qs[key]);
+  }
+
+  const addresses = (qs.address || "").split(",").filter(isAddress);
+  const appUrl = params.toString() ? `${siteUrl}/?${params.toString()}` : `${siteUrl}/`;
+  const imageParams = new URLSearchParams();
+  if (addresses[0]) imageParams.set("address", addresses[0]);
+  if (qs.token) imageParams.set("token", qs.token);
+  if (qs.range) imageParams.set("range", qs.range);
+  if (qs.range === "custom") {
+    if (qs.from) imageParams.set("from", qs.from);
+    if (qs.to) imageParams.set("to", qs.to);
+  }
+  const imageUrl = `${siteUrl}/.netlify/functions/share-image?${imageParams.toString()}`;
+
+  const title = addresses[0]
+    ? `Bracky Tracky · ${addresses[0].slice(0, 6)}...${addresses[0].slice(-4)}`
+    : "Bracky Tracky";
+  const description = "Unofficial Bracky Wallet tracker.";
+
+  const embed = JSON.stringify({
+    version: "1",
+    imageUrl,
+    button: {
+      title: "View stats",
+      action: { type: "launch_miniapp", name: "Bracky Tracky", url: appUrl },
+    },
+  });
+  // Older clients still read fc:frame with the launch_frame action
+  const legacyEmbed = JSON.stringify({
+    version: "next",
+    imageUrl,
+    button: {
+      title: "View stats",
+      action: { type: "launch_frame", name: "Bracky Tracky", url: appUrl },
+    },
+  });
+
+  const html = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(title)}</title>
+    <meta name="description" content="${escapeHtml(description)}" />
+    <meta property="og:type" content="website" />
+    <meta property="og:url" content="${escapeHtml(appUrl)}" />
+    <meta property="og:title" content="${escapeHtml(title)}" />
+    <meta property="og:description" content="${escapeHtml(description)}" />
+    <meta property="og:image" content="${escapeHtml(imageUrl)}" />
+    <meta property="twitter:card" content="summary_large_image" />
+    <meta property="twitter:image" content="${escapeHtml(imageUrl)}" />
+    <meta name="fc:miniapp" content="${escapeHtml(embed)}" />
+    <meta name="fc:frame" content="${escapeHtml(legacyEmbed)}" />
+    <meta http-equiv="refresh" content="0; url=${escapeHtml(appUrl)}" />
+  </head>
+  <body>
+    <a href="${escapeHtml(appUrl)}">Open Bracky Tracky</a>
+  </body>
+</html>`;
+
+  return {
+    statusCode: 200,
+    headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "public, max-age=300" },
+    body: html,
+  };
+};
@@ -0,0 +1,110 @@
+const crypto = require("crypto");
+
+// Tail pages keep growing as new transfers land; full ascending pages never change once written
+const SHORT_TTL_MS = Number(process.env.ETHERSCAN_CACHE_SHORT_TTL || 30) * 1000;
+const LONG_TTL_MS = Number(process.env.ETHERSCAN_CACHE_LONG_TTL || 7 * 24 * 60 * 60) * 1000;
+const MAX_MEMORY_ENTRIES = 500;
+const DEFAULT_PAGE_SIZE = 10_000;
+
+// Calls that return block-ordered history and can be paged and extended
+const HISTORY_ACTIONS = new Set(["tokentx", "txlist"]);
+// Params whose case doesn't matter to Etherscan, folded so 0xAbC and 0xabc share an entry
+const CASE_INSENSITIVE = new Set(["address", "contractaddress"]);
+
+// Stable key for a query: sorted params, folded addresses, no API key
+const cacheKey = (params) =>
+  Object.keys(params)
+    .filter((key) => key !== "apikey")
+    .sort()
+    .map((key) => `${key}=${CASE_INSENSITIVE.has(key) ? String(params[key]).toLowerCase() : params[key]}`)
+    .join("&");
+
+const isHistoryQuery = (params) =>
+  params.module === "account" && HISTORY_ACTIONS.has(params.action) && (params.sort || "asc") === "asc";
+
+const pageSize = (params) => Number(params.offset) || DEFAULT_PAGE_SIZE;
+
+const rowsOf = (body) => (Array.isArray(body && body.result) ? body.result : null);
+
+const lastBlockOf = (rows) => (rows && rows.length > 0 ? Number(rows[rows.length - 1].blockNumber) : null);
+
+// Etherscan answers an empty result with status "0"; anything else with status "0" is an error worth retrying
+const isCacheable = (body) => body && (body.status === "1" || (body.status === "0" && rowsOf(body)?.length === 0));
+
+const ttlFor = (params, body) => {
+  const rows = rowsOf(body);
+  return isHistoryQuery(params) && rows && rows.length >= pageSize(params) ? LONG_TTL_MS : SHORT_TTL_MS;
+};
+
+const toEntry = (params, body, now) => ({
+  body,
+  storedAt: now,
+  ttlMs: ttlFor(params, body),
+  lastBlock: isHistoryQuery(params) ? lastBlockOf(rowsOf(body)) : null,
+});
+
+const isFresh = (entry, now) => now - entry.storedAt < entry.ttlMs;
+
+// A stale tail page can be topped up from its last block instead of re-read from the start
+const canExtend = (params, entry) =>
+  isHistoryQuery(params) && entry.lastBlock !== null && Number(params.endblock || Number.MAX_SAFE_INTEGER) >= entry.lastBlock;
+
+const extendParams = (params, entry) => ({ ...params, startblock: String(entry.lastBlock), page: "1" });
+
+// Cached rows before the last block, then everything fresh from it onward (the last block is re-read in full)
+const mergeExtension = (params, entry, freshBody) => {
+  const cached = rowsOf(entry.body).filter((row) => Number(row.blockNumber) < entry.lastBlock);
+  const fresh = rowsOf(freshBody) || [];
+  return { ...entry.body, status: "1", message: "OK", result: [...cached, ...fresh].slice(0, pageSize(params)) };
+};
+
+// Per-instance cache; only survives while the function container stays warm
+const memoryEntries = new Map();
+const memoryStore = {
+  get: async (key) => memoryEntries.get(key) || null,
+  set: async (key, entry) => {
+    memoryEntries.delete(key);
+    memoryEntries.set(key, entry);
+    if (memoryEntries.size > MAX_MEMORY_ENTRIES) memoryEntries.delete(memoryEntries.keys().next().value);
+  },
+};
+
+// Shared across instances and deploys via Netlify Blobs
+const blobStore = (event) => {
+  const { connectLambda, getStore } = require("@netlify/blobs");
+  connectLambda(event);
+  const store = getStore({ name: "etherscan-cache", consistency: "eventual" });
+  // Blob keys are length-limited; the normalized query is hashed
+  const blobKey = (key) => crypto.createHash("sha256").update(key).digest("hex");
+  return {
+    get: (key) => store.get(blobKey(key), { type: "json" }),
+    set: (key, entry) => store.setJSON(blobKey(key), entry),
+  };
+};
+
+const noStore = { get: async () => null, set: async () => {} };
+
+// ETHERSCAN_CACHE picks the backend: "blobs", "memory" or "off". By default Blobs are used when the runtime provides them.
+const createStore = (event) => {
+  const mode = process.env.ETHERSCAN_CACHE || (event.blobs ? "blobs" : "memory");
+  if (mode === "off") return noStore;
+  if (mode === "blobs") {
+    try {
+      return blobStore(event);
+    } catch (err) {
+      console.warn("Netlify Blobs unavailable, caching in memory:", err.message);
+    }
+  }
+  return memoryStore;
+};
+
+module.exports = {
+  cacheKey,
+  canExtend,
+  createStore,
+  extendParams,
+  isCacheable,
+  isFresh,
+  mergeExtension,
+  toEntry,
+};
@@ -0,0 +1,90 @@
+// Etherscan V2 behind the proxy's request policy and cache. Every function that spends the server key goes through
+// here, so none of them can be used to query more, or more often, than the proxy allows.
+const {
+  cacheKey,
+  canExtend,
+  createStore,
+  extendParams,
+  isCacheable,
+  isFresh,
+  mergeExtension,
+  toEntry,
+} = require("./etherscan-cache");
+const { ALLOWED_CALLS, ProxyError, validateQuery } = require("./proxy-guard");
+
+// Forward one query to Etherscan V2 with the server key attached
+const forward = async (query, apiKey) => {
+  // Build params and append apikey server-side (do NOT accept apikey from client)
+  const params = new URLSearchParams(query);
+  params.set("apikey", apiKey);
+
+  // Use V2 base URL. You can override with ETHERSCAN_V2_BASE if needed (e.g. a local mock).
+  const base = process.env.ETHERSCAN_V2_BASE || "https://api.etherscan.io/v2/api";
+  const resp = await fetch(`${base}?${params.toString()}`);
+  const text = await resp.text();
+
+  let body = null;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Non-JSON bodies (HTML error pages) are reported as upstream errors below
+  }
+  return { ok: resp.ok, status: resp.status, text, body };
+};
+
+// Cache writes are best-effort; a failed write must not fail the lookup
+const save = (store, key, entry) =>
+  store.set(key, entry).catch((err) => console.warn("Etherscan cache write failed:", err.message));
+
+const ageOf = (entry, now) => Math.floor((now - entry.storedAt) / 1000);
+
+// Answer one query from the cache or Etherscan. Resolves { body, text, cache, age }: `text` is the upstream response
+// as received on a miss, `cache` is HIT, EXTEND, STALE or MISS and `age` the seconds a cached answer has been kept.
+// Throws a ProxyError for refused queries and upstream failures. `calls` narrows or widens the proxy's allowlist.
+const queryEtherscan = async (event, rawQuery, calls = ALLOWED_CALLS) => {
+  // Server-side API key (set in Netlify env vars: ETHERSCAN_API_KEY)
+  const apiKey = process.env.ETHERSCAN_API_KEY;
+  if (!apiKey) {
+    throw new ProxyError("CONFIG_ERROR", "Missing ETHERSCAN_API_KEY on server", 500);
+  }
+
+  const qs = validateQuery(rawQuery, calls);
+  const store = createStore(event);
+  const key = cacheKey(qs);
+  const now = Date.now();
+  const entry = await store.get(key).catch((err) => {
+    console.warn("Etherscan cache read failed:", err.message);
+    return null;
+  });
+
+  if (entry && isFresh(entry, now)) {
+    return { body: entry.body, text: null, cache: "HIT", age: ageOf(entry, now) };
+  }
+
+  // Stale tail page: only ask Etherscan for blocks from the last cached one onward
+  if (entry && canExtend(qs, entry)) {
+    const fresh = await forward(extendParams(qs, entry), apiKey);
+    if (fresh.ok && isCacheable(fresh.body)) {
+      const body = mergeExtension(qs, entry, fresh.body);
+      await save(store, key, toEntry(qs, body, now));
+      return { body, text: null, cache: "EXTEND", age: 0 };
+    }
+    // Upstream refused (usually rate limiting); slightly old rows beat an error
+    return { body: entry.body, text: null, cache: "STALE", age: ageOf(entry, now) };
+  }
+
+  const upstream = await forward(qs, apiKey);
+  if (!upstream.ok || !upstream.body) {
+    throw new ProxyError("UPSTREAM_ERROR", `Etherscan HTTP ${upstream.status}`, 502);
+  }
+  if (!isCacheable(upstream.body)) {
+    // Etherscan reports failures as HTTP 200 with status "0" and the reason in `result`
+    const reason = String(upstream.body.result || upstream.body.message || "Unknown API error");
+    if (/rate limit/i.test(reason)) throw new ProxyError("RATE_LIMITED", reason, 429, { retryAfter: 1 });
+    throw new ProxyError("UPSTREAM_ERROR", reason, 502);
+  }
+  await save(store, key, toEntry(qs, upstream.body, now));
+  return { body: upstream.body, text: upstream.text, cache: "MISS", age: 0 };
+};
+
+module.exports = { queryEtherscan };
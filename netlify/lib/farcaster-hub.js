@@ -0,0 +1,30 @@
+// Minimal Farcaster hub HTTP client. Any Snapchain/hub HTTP API works; override with FARCASTER_HUB_URL.
+const hubUrl = () => process.env.FARCASTER_HUB_URL || "https://hub.pinata.cloud";
+
+const isAddress = (value) => /^0x[a-fA-F0-9]{40}$/.test(value || "");
+
+const hub = async (path) => {
+  const resp = await fetch(`${hubUrl()}${path}`);
+  // Hubs answer unknown names/fids with 400/404 rather than an empty result
+  if (resp.status === 400 || resp.status === 404) return null;
+  if (!resp.ok) throw new Error(`Hub HTTP ${resp.status}`);
+  return resp.json();
+};
+
+// fid registered for an fname (the part after @), or null if nobody owns it
+const fidForUsername = async (username) => {
+  const proof = await hub(`/v1/userNameProofByName?name=${encodeURIComponent(username)}`);
+  return proof && typeof proof.fid === "number" ? proof.fid : null;
+};
+
+// Ethereum addresses a fid has verified, in the order they were added
+const verifiedAddresses = async (fid) => {
+  const data = await hub(`/v1/verificationsByFid?fid=${fid}`);
+  return ((data && data.messages) || [])
+    .map((m) => m.data && m.data.verificationAddAddressBody)
+    .filter((body) => body && body.protocol !== "PROTOCOL_SOLANA")
+    .map((body) => body.address)
+    .filter(isAddress);
+};
+
+module.exports = { fidForUsername, verifiedAddresses };
@@ -0,0 +1,131 @@
+// Request policy for etherscan-proxy: only the calls the tracker makes, with validated parameters and per-IP limits.
+const { CHAINS, TOKENS } = require("./tokens");
+
+const ALLOWED_CHAINS = new Set(CHAINS.map((chain) => String(chain.id)));
+// "chainid:contract" pairs, so a registry token can only be queried on its own chain
+const ALLOWED_CONTRACTS = new Set(TOKENS.map((token) => `${token.chainId}:${token.contract.toLowerCase()}`));
+
+const PAGING_PARAMS = ["startblock", "endblock", "page", "offset", "sort"];
+// `module/action` → parameters it needs and may carry. Anything else is refused.
+const ALLOWED_CALLS = {
+  "account/tokentx": { required: ["address", "contractaddress"], optional: PAGING_PARAMS },
+  "account/txlist": { required: ["address"], optional: PAGING_PARAMS },
+};
+// The share card also reads the current balance; the browser never needs it, so the proxy doesn't forward it
+const SHARE_CARD_CALLS = {
+  ...ALLOWED_CALLS,
+  "account/tokenbalance": { required: ["address", "contractaddress"], optional: ["tag"] },
+};
+// Etherscan refuses page * offset beyond this
+const RESULT_WINDOW = 10_000;
+
+const RATE_LIMIT = Number(process.env.PROXY_RATE_LIMIT || 120);
+const RATE_WINDOW_MS = 60_000;
+
+// Error with a stable `code` the frontend maps to a message; serialized as { code, error, param? }
+class ProxyError extends Error {
+  constructor(code, message, statusCode, extra = {}) {
+    super(message);
+    this.name = "ProxyError";
+    this.code = code;
+    this.statusCode = statusCode;
+    this.extra = extra;
+  }
+}
+
+const invalid = (param, message) => new ProxyError("INVALID_PARAM", message, 400, { param });
+
+const isAddress = (value) => /^0x[a-fA-F0-9]{40}$/.test(value || "");
+const isBlock = (value) => /^\d{1,10}$/.test(value);
+const isPositiveInt = (value) => /^[1-9]\d{0,5}$/.test(value);
+
+// Return the query reduced to known parameters, or throw a ProxyError saying what is wrong with it
+const validateQuery = (qs, calls = ALLOWED_CALLS) => {
+  const call = calls[`${qs.module}/${qs.action}`];
+  if (!call) {
+    throw new ProxyError("NOT_ALLOWED", `${qs.module || "?"}/${qs.action || "?"} is not an allowed call`, 403);
+  }
+
+  const known = new Set(["module", "action", "chainid", ...call.required, ...call.optional]);
+  const unknown = Object.keys(qs).find((key) => !known.has(key));
+  if (unknown) throw invalid(unknown, `Unexpected parameter: ${unknown}`);
+
+  if (!ALLOWED_CHAINS.has(qs.chainid)) throw invalid("chainid", `Unsupported chain: ${qs.chainid || "missing"}`);
+  for (const param of call.required) {
+    if (!qs[param]) throw invalid(param, `Missing required parameter: ${param}`);
+  }
+  if (!isAddress(qs.address)) throw invalid("address", "address must be a 0x-prefixed 40 hex character address");
+  if (qs.contractaddress !== undefined && !ALLOWED_CONTRACTS.has(`${qs.chainid}:${qs.contractaddress.toLowerCase()}`)) {
+    throw new ProxyError("NOT_ALLOWED", "contractaddress is not an allowed token on this chain", 403, {
+      param: "contractaddress",
+    });
+  }
+
+  for (const param of ["startblock", "endblock"]) {
+    if (qs[param] !== undefined && !isBlock(qs[param])) throw invalid(param, `${param} must be a block number`);
+  }
+  if (qs.startblock !== undefined && qs.endblock !== undefined && Number(qs.startblock) > Number(qs.endblock)) {
+    throw invalid("startblock", "startblock must not be after endblock");
+  }
+  for (const param of ["page", "offset"]) {
+    if (qs[param] !== undefined && !isPositiveInt(qs[param])) throw invalid(param, `${param} must be a positive integer`);
+  }
+  if (Number(qs.page || 1) * Number(qs.offset || 1) > RESULT_WINDOW) {
+    throw invalid("page", `page * offset must not exceed ${RESULT_WINDOW}`);
+  }
+  if (qs.sort !== undefined && qs.sort !== "asc" && qs.sort !== "desc") {
+    throw invalid("sort", "sort must be asc or desc");
+  }
+  if (qs.tag !== undefined && qs.tag !== "latest") throw invalid("tag", "tag must be latest");
+
+  const query = {};
+  for (const key of known) {
+    if (qs[key] !== undefined) query[key] = qs[key];
+  }
+  return query;
+};
+
+// Netlify sets the client IP header; x-forwarded-for covers netlify dev and other proxies
+const clientIp = (event) => {
+  const headers = event.headers || {};
+  return headers["x-nf-client-connection-ip"] || (headers["x-forwarded-for"] || "").split(",")[0].trim() || "unknown";
+};
+
+// Fixed one-minute windows per IP, per function instance. Enough to stop a single client draining the key.
+const windows = new Map();
+const checkRateLimit = (ip, now = Date.now()) => {
+  const current = windows.get(ip);
+  if (!current || now - current.startedAt >= RATE_WINDOW_MS) {
+    // Drop expired windows so the map doesn't grow with every visitor
+    for (const [key, window] of windows) {
+      if (now - window.startedAt >= RATE_WINDOW_MS) windows.delete(key);
+    }
+    windows.set(ip, { startedAt: now, count: 1 });
+    return;
+  }
+
+  current.count++;
+  if (current.count > RATE_LIMIT) {
+    const retryAfter = Math.ceil((current.startedAt + RATE_WINDOW_MS - now) / 1000);
+    throw new ProxyError("RATE_LIMITED", "Too many requests, slow down", 429, { retryAfter });
+  }
+};
+
+const errorResponse = (err) => {
+  const { retryAfter, ...extra } = err.extra;
+  return {
+    statusCode: err.statusCode,
+    headers: { "Content-Type": "application/json", ...(retryAfter ? { "Retry-After": String(retryAfter) } : {}) },
+    body: JSON.stringify({ code: err.code, error: err.message, ...extra, ...(retryAfter ? { retryAfter } : {}) }),
+  };
+};
+
+module.exports = {
+  ALLOWED_CALLS,
+  SHARE_CARD_CALLS,
+  ProxyError,
+  validateQuery,
+  clientIp,
+  checkRateLimit,
+  errorResponse,
+};
@@ -0,0 +1,14 @@
+// The app's token registry, shared so the proxy and price lookups allow exactly what the selector offers
+const registry = require("../../src/lib/token-registry.json");
+
+const TOKENS = registry.tokens;
+const CHAINS = registry.chains;
+// $BRACKY on Base; share links leave it out of their `token` param
+const DEFAULT_TOKEN = TOKENS[0];
+
+// Registry entry for an id, or null for an unknown or missing one
+const findToken = (id) => TOKENS.find((token) => token.id === id) || null;
+
+const chainOf = (token) => CHAINS.find((chain) => chain.id === token.chainId);
+
+module.exports = { TOKENS, CHAINS, DEFAULT_TOKEN, findToken, chainOf };
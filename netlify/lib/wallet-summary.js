@@ -0,0 +1,138 @@
+// Server-side wallet summary for share images and embeds. Kept small on purpose: the full ledger lives in the SPA.
+const { queryEtherscan } = require("./etherscan-client");
+const { SHARE_CARD_CALLS, checkRateLimit, clientIp } = require("./proxy-guard");
+const { DEFAULT_TOKEN } = require("./tokens");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RANGE_DAYS = { "7d": 7, "30d": 30, "90d": 90, "1y": 365 };
+const DEFAULT_RANGE = "30d";
+
+// tokentx pages like the SPA reads them; Etherscan refuses page * offset beyond the window
+const PAGE_SIZE = 1000;
+const WINDOW_LIMIT = 10_000;
+// The card is rendered on every embed fetch; a wallet busier than this is summarized as partial instead
+const MAX_REQUESTS = 20;
+
+const isAddress = (value) => /^0x[a-fA-F0-9]{40}$/.test(value || "");
+
+// Each read counts against the caller's per-IP limit like a proxy request would, then goes through the proxy's
+// validation and cache
+const etherscan = async (event, chainId, params) => {
+  checkRateLimit(clientIp(event));
+  const { body } = await queryEtherscan(event, { ...params, chainid: String(chainId) }, SHARE_CARD_CALLS);
+  return body.result;
+};
+
+// Render an integer base-unit amount as a compact label (1.2K, 3.4M)
+const formatCompact = (value, decimals, signed = false) => {
+  const negative = value < 0n;
+  const abs = negative ? -value : value;
+  const whole = Number(abs / 10n ** BigInt(decimals));
+  let body;
+  if (whole >= 1e9) body = `${(whole / 1e9).toFixed(1)}B`;
+  else if (whole >= 1e6) body = `${(whole / 1e6).toFixed(1)}M`;
+  else if (whole >= 1e3) body = `${(whole / 1e3).toFixed(1)}K`;
+  else body = String(whole);
+  return `${negative ? "-" : signed ? "+" : ""}${body}`;
+};
+
+const utcDay = (value) => (/^\d{4}-\d{2}-\d{2}$/.test(value || "") ? Date.parse(`${value}T00:00:00Z`) : Number.NaN);
+
+// A shared link's range in UTC days: presets count back from today, "all" has no start, "custom" reads from/to.
+// Anything unreadable is the SPA's default range.
+const resolveRange = ({ range, from, to } = {}, now = Date.now()) => {
+  if (range === "all") return { label: "All-Time", since: null, until: now };
+  if (range === "custom") {
+    const start = utcDay(from);
+    const end = utcDay(to);
+    const since = Number.isNaN(start) ? null : start;
+    const until = Number.isNaN(end) ? now : Math.min(end + DAY_MS - 1, now);
+    const label = `${Number.isNaN(start) ? "Start" : from} to ${Number.isNaN(end) ? "Today" : to} (UTC)`;
+    return { label, since, until };
+  }
+  const days = RANGE_DAYS[range] || RANGE_DAYS[DEFAULT_RANGE];
+  const today = Math.floor(now / DAY_MS) * DAY_MS;
+  return { label: `${days}-Day`, since: today - (days - 1) * DAY_MS, until: now };
+};
+
+// Transfers back to `since` (null: all of them), newest first. Walks back in block windows as the SPA walks forward;
+// `partial` says the request budget ran out before reaching `since`.
+const readTransfers = async (event, token, address, since) => {
+  const rows = [];
+  let endBlock = 99_999_999;
+  let page = 1;
+  for (let requests = 0; requests < MAX_REQUESTS; requests++) {
+    const batch = await etherscan(event, token.chainId, {
+      module: "account",
+      action: "tokentx",
+      contractaddress: token.contract,
+      address,
+      startblock: "0",
+      endblock: String(endBlock),
+      page: String(page),
+      offset: String(PAGE_SIZE),
+      sort: "desc",
+    });
+    const transfers = Array.isArray(batch) ? batch : [];
+    rows.push(...transfers);
+    const oldest = transfers[transfers.length - 1];
+    if (transfers.length < PAGE_SIZE || (since !== null && Number(oldest.timeStamp) * 1000 < since)) {
+      return { rows, partial: false };
+    }
+    if (page * PAGE_SIZE < WINDOW_LIMIT) {
+      page++;
+      continue;
+    }
+
+    // Window exhausted: read on from the oldest block seen. It comes back in full, so drop the copy read so far.
+    const block = Number(oldest.blockNumber);
+    // A single block holds more transfers than one window can return
+    if (block >= endBlock) break;
+    while (rows.length > 0 && Number(rows[rows.length - 1].blockNumber) === block) rows.pop();
+    endBlock = block;
+    page = 1;
+  }
+  return { rows, partial: true };
+};
+
+// Current balance of a registry token plus net change over a shared range for one address. `partial` marks a net
+// change summed over fewer transfers than the range holds. `event` is the function's request, for the rate limit and
+// cache; refused or failed reads throw a ProxyError.
+const fetchWalletSummary = async (event, address, rangeParams, token = DEFAULT_TOKEN) => {
+  const range = resolveRange(rangeParams);
+  const user = address.toLowerCase();
+
+  const [balanceRaw, { rows, partial }] = await Promise.all([
+    etherscan(event, token.chainId, {
+      module: "account",
+      action: "tokenbalance",
+      contractaddress: token.contract,
+      address,
+      tag: "latest",
+    }),
+    readTransfers(event, token, address, range.since),
+  ]);
+
+  // "0" is a valid decimals value; only a missing one falls back to the registry
+  const decimals = /^\d+$/.test(rows[0]?.tokenDecimal || "") ? Number(rows[0].tokenDecimal) : token.decimals;
+
+  let netChange = 0n;
+  for (const tx of rows) {
+    const ms = Number(tx.timeStamp) * 1000;
+    if ((range.since !== null && ms < range.since) || ms > range.until) continue;
+    const value = /^\d+$/.test(tx.value || "") ? BigInt(tx.value) : 0n;
+    if ((tx.to || "").toLowerCase() === user) netChange += value;
+    if ((tx.from || "").toLowerCase() === user) netChange -= value;
+  }
+
+  return {
+    address,
+    label: range.label,
+    decimals,
+    balance: /^\d+$/.test(String(balanceRaw)) ? BigInt(balanceRaw) : 0n,
+    netChange,
+    partial,
+  };
+};
+
+module.exports = { isAddress, fetchWalletSummary, formatCompact };
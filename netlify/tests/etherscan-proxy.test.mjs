@@ -0,0 +1,218 @@
+import { createRequire } from "node:module";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const require = createRequire(import.meta.url);
+const { handler } = require("../functions/etherscan-proxy.js");
+
+const BASE = "8453";
+const BRACKY = "0x06f71fb90f84b35302d132322a3c90e4477333b0";
+const WALLET = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+
+// Each test gets its own client IP so the per-IP windows don't leak between tests
+let ipCount = 0;
+const call = (query, ip = `203.0.113.${++ipCount}`) =>
+  handler({ queryStringParameters: query, headers: { "x-nf-client-connection-ip": ip } });
+
+const tokentx = (extra = {}) => ({
+  module: "account",
+  action: "tokentx",
+  chainid: BASE,
+  address: WALLET,
+  contractaddress: BRACKY,
+  ...extra,
+});
+
+const bodyOf = (response) => JSON.parse(response.body);
+
+let upstream;
+
+beforeEach(() => {
+  vi.stubEnv("ETHERSCAN_API_KEY", "server-key");
+  vi.stubEnv("ETHERSCAN_CACHE", "off");
+  upstream = vi.fn(async () => new Response(JSON.stringify({ status: "1", message: "OK", result: [] })));
+  vi.stubGlobal("fetch", upstream);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe("etherscan-proxy", () => {
+  it("forwards an allowed call with the server key", async () => {
+    const response = await call(tokentx({ page: "1", offset: "1000", sort: "asc" }));
+    expect(response.statusCode).toBe(200);
+    expect(response.headers["X-Cache"]).toBe("MISS");
+    const url = new URL(upstream.mock.calls[0][0]);
+    expect(url.searchParams.get("apikey")).toBe("server-key");
+    expect(url.searchParams.get("contractaddress")).toBe(BRACKY);
+  });
+
+  it("refuses calls the tracker doesn't make", async () => {
+    const response = await call({ module: "proxy", action: "eth_call", chainid: BASE, to: BRACKY, data: "0x" });
+    expect(response.statusCode).toBe(403);
+    expect(bodyOf(response)).toEqual({ code: "NOT_ALLOWED", error: "proxy/eth_call is not an allowed call" });
+    expect(upstream).not.toHaveBeenCalled();
+  });
+
+  it("refuses a registry token queried on another chain", async () => {
+    const response = await call(tokentx({ chainid: "1" }));
+    expect(response.statusCode).toBe(403);
+    expect(bodyOf(response)).toMatchObject({ code: "NOT_ALLOWED", param: "contractaddress" });
+  });
+
+  it("rejects parameters outside the call's allowlist", async () => {
+    const response = await call(tokentx({ apikey: "client-key" }));
+    expect(response.statusCode).toBe(400);
+    expect(bodyOf(response)).toEqual({ code: "INVALID_PARAM", error: "Unexpected parameter: apikey", param: "apikey" });
+    expect(upstream).not.toHaveBeenCalled();
+  });
+
+  it("keeps page * offset inside Etherscan's result window", async () => {
+    expect((await call(tokentx({ page: "10", offset: "1000" }))).statusCode).toBe(200);
+    const response = await call(tokentx({ page: "11", offset: "1000" }));
+    expect(response.statusCode).toBe(400);
+    expect(bodyOf(response)).toMatchObject({ code: "INVALID_PARAM", param: "page" });
+  });
+
+  it("limits each client IP and says when to retry", async () => {
+    const ip = "198.51.100.7";
+    for (let i = 0; i < 120; i++) {
+      expect((await call(tokentx(), ip)).statusCode).toBe(200);
+    }
+    const limited = await call(tokentx(), ip);
+    expect(limited.statusCode).toBe(429);
+    const body = bodyOf(limited);
+    expect(body).toMatchObject({ code: "RATE_LIMITED", error: "Too many requests, slow down" });
+    expect(body.retryAfter).toBeGreaterThan(0);
+    expect(limited.headers["Retry-After"]).toBe(String(body.retryAfter));
+    // Other clients are unaffected
+    expect((await call(tokentx())).statusCode).toBe(200);
+  });
+
+  it("reports Etherscan's own rate limiting as a 429", async () => {
+    upstream.mockResolvedValueOnce(
+      new Response(JSON.stringify({ status: "0", message: "NOTOK", result: "Max rate limit reached" })),
+    );
+    const response = await call(tokentx());
+    expect(response.statusCode).toBe(429);
+    expect(bodyOf(response)).toEqual({ code: "RATE_LIMITED", error: "Max rate limit reached", retryAfter: 1 });
+  });
+
+  it("reports a non-JSON upstream reply as an upstream error", async () => {
+    upstream.mockResolvedValueOnce(new Response("<html>Bad gateway</html>", { status: 502 }));
+    const response = await call(tokentx());
+    expect(response.statusCode).toBe(502);
+    expect(bodyOf(response)).toEqual({ code: "UPSTREAM_ERROR", error: "Etherscan HTTP 502" });
+  });
+
+  it("fails closed without a server key", async () => {
+    vi.stubEnv("ETHERSCAN_API_KEY", "");
+    const response = await call(tokentx());
+    expect(response.statusCode).toBe(500);
+    expect(bodyOf(response).code).toBe("CONFIG_ERROR");
+  });
+});
+
+describe("etherscan-proxy cache", () => {
+  const NOW = Date.UTC(2025, 2, 1);
+  const SECOND = 1000;
+
+  // Every test reads its own wallet, so entries in the shared memory store don't carry over
+  let walletCount = 0;
+  let wallet;
+  const rows = (...blocks) => blocks.map((block) => ({ blockNumber: String(block), hash: `0x${block}` }));
+  const blocksOf = (response) => bodyOf(response).result.map((row) => Number(row.blockNumber));
+  const reply = (result) =>
+    new Response(JSON.stringify({ status: result.length > 0 ? "1" : "0", message: "OK", result }));
+  const history = (extra = {}) => tokentx({ address: wallet, page: "1", offset: "3", sort: "asc", ...extra });
+
+  beforeEach(() => {
+    vi.stubEnv("ETHERSCAN_CACHE", "memory");
+    vi.useFakeTimers({ now: NOW, toFake: ["Date"] });
+    wallet = `0x${String(++walletCount).padStart(40, "c")}`;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("answers a repeated query from the cache", async () => {
+    upstream.mockResolvedValueOnce(reply(rows(10, 11)));
+    expect((await call(history())).headers["X-Cache"]).toBe("MISS");
+
+    vi.setSystemTime(NOW + 10 * SECOND);
+    const hit = await call(history({ address: wallet.toUpperCase().replace("0X", "0x") }));
+    expect(hit.headers).toMatchObject({ "X-Cache": "HIT", Age: "10" });
+    expect(blocksOf(hit)).toEqual([10, 11]);
+    expect(upstream).toHaveBeenCalledTimes(1);
+  });
+
+  it("tops up a stale tail page from its last block", async () => {
+    upstream.mockResolvedValueOnce(reply(rows(10, 11)));
+    await call(history());
+
+    // Past the short TTL: the tail page may have grown
+    vi.setSystemTime(NOW + 31 * SECOND);
+    upstream.mockResolvedValueOnce(reply(rows(11, 12)));
+    const extended = await call(history());
+    expect(extended.headers["X-Cache"]).toBe("EXTEND");
+    const url = new URL(upstream.mock.calls[1][0]);
+    expect(url.searchParams.get("startblock")).toBe("11");
+    expect(url.searchParams.get("page")).toBe("1");
+    // Block 11 is re-read in full rather than kept twice
+    expect(blocksOf(extended)).toEqual([10, 11, 12]);
+
+    expect((await call(history())).headers["X-Cache"]).toBe("HIT");
+  });
+
+  it("keeps a full ascending page for the long TTL", async () => {
+    upstream.mockResolvedValueOnce(reply(rows(10, 11, 12)));
+    await call(history());
+
+    vi.setSystemTime(NOW + 24 * 60 * 60 * SECOND);
+    expect((await call(history())).headers["X-Cache"]).toBe("HIT");
+
+    vi.setSystemTime(NOW + 8 * 24 * 60 * 60 * SECOND);
+    upstream.mockResolvedValueOnce(reply(rows(12, 13)));
+    const extended = await call(history());
+    expect(extended.headers["X-Cache"]).toBe("EXTEND");
+    // The merged page still holds at most `offset` rows
+    expect(blocksOf(extended)).toEqual([10, 11, 12]);
+  });
+
+  it("serves a stale page when Etherscan refuses the top-up", async () => {
+    upstream.mockResolvedValueOnce(reply(rows(10, 11)));
+    await call(history());
+
+    vi.setSystemTime(NOW + 45 * SECOND);
+    upstream.mockResolvedValueOnce(
+      new Response(JSON.stringify({ status: "0", message: "NOTOK", result: "Max rate limit reached" })),
+    );
+    const stale = await call(history());
+    expect(stale.statusCode).toBe(200);
+    expect(stale.headers).toMatchObject({ "X-Cache": "STALE", Age: "45" });
+    expect(blocksOf(stale)).toEqual([10, 11]);
+  });
+
+  it("re-reads newest-first pages once the short TTL is over", async () => {
+    upstream.mockResolvedValueOnce(reply(rows(11, 10)));
+    await call(history({ sort: "desc" }));
+
+    vi.setSystemTime(NOW + 29 * SECOND);
+    expect((await call(history({ sort: "desc" }))).headers["X-Cache"]).toBe("HIT");
+
+    vi.setSystemTime(NOW + 31 * SECOND);
+    upstream.mockResolvedValueOnce(reply(rows(12, 11, 10)));
+    const fresh = await call(history({ sort: "desc" }));
+    expect(fresh.headers["X-Cache"]).toBe("MISS");
+    expect(new URL(upstream.mock.calls[1][0]).searchParams.get("startblock")).toBeNull();
+  });
+
+  it("doesn't cache Etherscan errors", async () => {
+    upstream.mockResolvedValueOnce(new Response(JSON.stringify({ status: "0", message: "NOTOK", result: "Invalid" })));
+    expect((await call(history())).statusCode).toBe(502);
+    upstream.mockResolvedValueOnce(reply(rows(10)));
+    expect((await call(history())).headers["X-Cache"]).toBe("MISS");
+  });
+});
@@ -0,0 +1,101 @@
+import { createRequire } from "node:module";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const require = createRequire(import.meta.url);
+const { fetchWalletSummary } = require("../lib/wallet-summary.js");
+const { checkRateLimit } = require("../lib/proxy-guard.js");
+
+const WALLET = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const OTHER = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+const NOW = Date.UTC(2025, 2, 31, 12);
+const DAY_S = 24 * 60 * 60;
+
+// Deposits of 1 token unit, two per block, the newest at `NOW`; one every `spacingS` seconds going back
+const history = (count, spacingS) =>
+  Array.from({ length: count }, (_, i) => ({
+    blockNumber: String(30_000_000 - Math.floor(i / 2)),
+    timeStamp: String(NOW / 1000 - i * spacingS),
+    hash: `0x${i.toString(16)}`,
+    from: OTHER,
+    to: WALLET,
+    value: "1",
+    tokenDecimal: "0",
+  }));
+
+// A fresh client per call so the per-IP limit only sees one test's reads
+let clients = 0;
+const request = () => ({ headers: { "x-nf-client-connection-ip": `10.1.0.${++clients}` } });
+
+// Etherscan's tokentx paging over `rows` (newest first): endblock bounds the window, page/offset slice it
+const serve = (rows) =>
+  vi.fn(async (url) => {
+    const params = new URL(url).searchParams;
+    if (params.get("chainid") !== "8453") return Response.json({ status: "0", message: "NOTOK", result: "bad chain" });
+    if (params.get("action") === "tokenbalance") return Response.json({ status: "1", result: "42" });
+    const offset = Number(params.get("offset"));
+    const page = Number(params.get("page"));
+    const inWindow = rows.filter((row) => Number(row.blockNumber) <= Number(params.get("endblock")));
+    const result = inWindow.slice((page - 1) * offset, page * offset);
+    return Response.json({ status: result.length > 0 ? "1" : "0", message: "OK", result });
+  });
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW, toFake: ["Date"] });
+  vi.stubEnv("ETHERSCAN_API_KEY", "server-key");
+  vi.stubEnv("ETHERSCAN_CACHE", "off");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe("fetchWalletSummary", () => {
+  it("sums a preset range of UTC days", async () => {
+    vi.stubGlobal("fetch", serve(history(20, DAY_S)));
+    const summary = await fetchWalletSummary(request(), WALLET, { range: "7d" });
+    expect(summary).toMatchObject({ label: "7-Day", balance: 42n, netChange: 7n, decimals: 0, partial: false });
+  });
+
+  it("reads a custom range from its from/to dates", async () => {
+    vi.stubGlobal("fetch", serve(history(40, DAY_S)));
+    const summary = await fetchWalletSummary(request(), WALLET, {
+      range: "custom",
+      from: "2025-03-01",
+      to: "2025-03-10",
+    });
+    expect(summary.label).toBe("2025-03-01 to 2025-03-10 (UTC)");
+    expect(summary.netChange).toBe(10n);
+  });
+
+  it("covers all time", async () => {
+    vi.stubGlobal("fetch", serve(history(40, DAY_S)));
+    const summary = await fetchWalletSummary(request(), WALLET, { range: "all" });
+    expect(summary).toMatchObject({ label: "All-Time", netChange: 40n, partial: false });
+  });
+
+  it("pages past Etherscan's result window without counting the boundary block twice", async () => {
+    const fetch = serve(history(10_501, 1));
+    vi.stubGlobal("fetch", fetch);
+    const summary = await fetchWalletSummary(request(), WALLET, { range: "30d" });
+    expect(summary).toMatchObject({ netChange: 10_501n, partial: false });
+    expect(fetch.mock.calls.length).toBeGreaterThan(11);
+  });
+
+  it("marks the net change partial when the wallet is too busy to read in full", async () => {
+    vi.stubGlobal("fetch", serve(history(30_000, 1)));
+    const summary = await fetchWalletSummary(request(), WALLET, { range: "30d" });
+    expect(summary.partial).toBe(true);
+    expect(summary.netChange).toBeLessThan(30_000n);
+  });
+
+  it("counts its reads against the caller's rate limit", async () => {
+    const fetch = serve(history(2, DAY_S));
+    vi.stubGlobal("fetch", fetch);
+    const event = request();
+    for (let i = 0; i < 120; i++) checkRateLimit(event.headers["x-nf-client-connection-ip"]);
+    await expect(fetchWalletSummary(event, WALLET, { range: "7d" })).rejects.toMatchObject({ code: "RATE_LIMITED" });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
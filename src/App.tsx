@@ -1,498 +1,328 @@
-import { useState, useEffect } from "react";
+import { ActivityPanel } from "@/components/ActivityPanel";
+import { CategoryBreakdown } from "@/components/CategoryBreakdown";
+import { ComparisonView } from "@/components/ComparisonView";
+import { CounterpartyPanel } from "@/components/CounterpartyPanel";
+import { ExportMenu } from "@/components/ExportMenu";
+import { LiveControls } from "@/components/LiveControls";
+import { PnlChart, PnlSummary } from "@/components/PnlPanel";
+import { RangeSelector } from "@/components/RangeSelector";
+import { SavedWallets } from "@/components/SavedWallets";
+import { ShareCastButton } from "@/components/ShareCastButton";
+import { ShareLinkButton } from "@/components/ShareLinkButton";
+import { SyncStatus } from "@/components/SyncStatus";
+import { TokenSelector } from "@/components/TokenSelector";
+import { TransferTable } from "@/components/TransferTable";
+import { ValuationPanel } from "@/components/ValuationPanel";
+import { WalletTabs } from "@/components/WalletTabs";
+import { Watchlist } from "@/components/Watchlist";
+import { WatchlistSwitcher } from "@/components/WatchlistSwitcher";
+import { useLiveUpdates } from "@/hooks/useLiveUpdates";
+import { usePriceSeries } from "@/hooks/usePriceSeries";
+import { compareWallets } from "@/lib/compare";
+import { dataSource } from "@/lib/data-source";
+import { type DeepLinkState, type ViewMode, buildSearch, parseDeepLink } from "@/lib/deep-link";
+import { EtherscanError, type FetchProgress } from "@/lib/etherscan";
+import { counterpartyOf } from "@/lib/export";
+import { type FarcasterViewer, initMiniApp } from "@/lib/farcaster";
+import { formatCompactNumber, formatTokenAmount } from "@/lib/format";
+import { type StoredHistory, deleteStoredHistory, listStoredHistories } from "@/lib/history-store";
+import { lookupAddress } from "@/lib/known-addresses";
+import { normalizeTransfers, processTransactionData } from "@/lib/ledger";
+import { loadNotifyThreshold, notifyTransfers, requestNotifyPermission, saveNotifyThreshold } from "@/lib/live";
+import { NameResolutionError, isNameInput, lookupNames, resolveAddressInputs } from "@/lib/names";
+import { combinedOnChainBalance, isAddress, loadWallet, mergeWalletRows, parseAddressList } from "@/lib/portfolio";
+import { formatUsd, latestPrice, priceAt, toUsd } from "@/lib/prices";
+import { BUCKET_ADJECTIVE, DEFAULT_RANGE, type RangeSpec, describeRange } from "@/lib/range";
+import { RpcSourceError } from "@/lib/rpc-source";
+import { type TokenInfo, chainOf, loadSelectedToken, saveSelectedToken, tokenLabel, tokenUnit } from "@/lib/tokens";
+import type { WalletData } from "@/lib/types";
 import {
-  LineChart,
-  Line,
-  XAxis,
-  YAxis,
-  CartesianGrid,
-  Tooltip,
-  ResponsiveContainer,
-  BarChart,
-  Bar,
-} from "recharts";
-import {
-  Wallet,
-  AlertCircle,
-  ArrowUpRight,
-  ArrowDownLeft,
-  Loader,
-  ChevronDown,
-  ChevronUp,
-} from "lucide-react";
-
-interface TransactionData {
-  day: string;
-  received: number;
-  sent: number;
-  net: number;
-  from?: string;
-  to?: string;
-}
-
-interface BalanceChartData {
-  day: string;
-  balance: number;
-}
-
-interface Stats {
-  address: string;
-  totalReceived: string;
-  totalSent: string;
-  netBalance: string;
-  totalTransactions: number;
-  receiveCount: number;
-  sendCount: number;
-  currentBalance: string;
-  balanceTenDaysAgo: string;
-  netChange: string;
-  netChangeLast10Days: string;
-  buySharesTotal: string;
-  buySharesCount: number;
-  activeStreak: number;
-  walletCreatedDate: string;
-}
+  type WatchlistEntry,
+  addToWatchlist,
+  loadWatchlist,
+  mergeWatchlists,
+  removeFromWatchlist,
+  saveWatchlist,
+  updateWatchlistEntry,
+} from "@/lib/watchlist";
+import { AlertCircle, ArrowDownLeft, ArrowUpRight, Loader, Wallet } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+const MAX_NAMED_COUNTERPARTIES = 100;
 
 export default function App() {
   const [address, setAddress] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
-  const [chartData, setChartData] = useState<BalanceChartData[] | null>(null);
-  const [txData, setTxData] = useState<TransactionData[] | null>(null);
-  const [stats, setStats] = useState<Stats | null>(null);
-  const [allTransfers, setAllTransfers] = useState<any[]>([]);
-  const [isTableOpen, setIsTableOpen] = useState(false);
-
-  // Utility: format number in compact form (e.g., 1.2K, 3.4M)
-  const formatCompactNumber = (num: number) => {
-    if (Math.abs(num) >= 1000000) {
-      return (num / 1000000).toFixed(1) + "M";
-    }
-    if (Math.abs(num) >= 1000) {
-      return (num / 1000).toFixed(1) + "K";
-    }
-    return Math.round(num).toString();
-  };
-
-  // Utility: convert Etherscan timestamp or unix string to ms
-  const toMs = (ts: any): number => {
-    if (ts === undefined || ts === null) return NaN;
-    const s = String(ts).trim();
-    const n = Number(s);
-    if (Number.isNaN(n)) return NaN;
-    return s.length <= 10 ? n * 1000 : n;
-  };
-
-  // Parse ERC-20 token value (value is integer with tokenDecimal)
-  const parseValue = (tx: any) => {
-    const decimals = parseInt(tx.tokenDecimal || "18", 10) || 18;
-    const raw = Number(tx.value ?? 0);
-    if (!Number.isFinite(raw)) return 0;
-    return raw / Math.pow(10, decimals);
-  };
-
-  // Heuristic: treat items as transfer-action for charts/grouping (fallback for tokentx)
-  const isTransferAction = (tx: any) => {
-    const action = (tx.action || "").toLowerCase();
-    if (action) return action === "transfer";
-    return !!tx.tokenSymbol && !!tx.value && tx.value !== "0";
-  };
-
-  // Detect explicit ERC-20 transfer function rows for the table:
-  // - functionName exactly matches the common Etherscan representation OR
-  // - functionName startsWith "transfer(" OR
-  // - input begins with ERC-20 transfer selector 0xa9059cbb
-  const isTransferFunction = (tx: any) => {
-    const fn = (tx.functionName || "").toString().trim();
-    if (fn === "transfer(address recipient,uint256 amount)") return true;
-    if (fn.toLowerCase().startsWith("transfer(")) return true;
-    const input = (tx.input || "").toLowerCase();
-    if (input.startsWith("0xa9059cbb")) return true; // ERC-20 transfer selector
-    return false;
-  };
-
-  // groupTransactionsByDay classifies by address (received/sent)
-  const groupTransactionsByDay = (transfers: any[], address: string) => {
-    const dayMap: { [key: string]: TransactionData } = {};
-    const now = Date.now();
-    const tenDaysMs = 10 * 24 * 60 * 60 * 1000;
-    const user = (address || "").toLowerCase();
-
-    transfers.forEach((tx: any) => {
-      if (!isTransferAction(tx)) return;
-
-      const txTime = toMs(tx.timeStamp);
-      if (Number.isNaN(txTime)) return;
-      if (now - txTime > tenDaysMs) return;
-
-      const date = new Date(txTime);
-      const dateKey = `${date.getMonth() + 1}/${date.getDate()}`;
-
-      if (!dayMap[dateKey]) {
-        dayMap[dateKey] = {
-          day: dateKey,
-          received: 0,
-          sent: 0,
-          net: 0,
-        };
-      }
-
-      const value = parseValue(tx);
-
-      if ((tx.to || "").toLowerCase() === user) {
-        dayMap[dateKey].received += value;
-      } else if ((tx.from || "").toLowerCase() === user) {
-        dayMap[dateKey].sent += value;
-      }
-
-      dayMap[dateKey].net = dayMap[dateKey].received - dayMap[dateKey].sent;
+  const [wallets, setWallets] = useState<WalletData[]>([]);
+  // null shows the combined portfolio; otherwise the address being drilled into
+  const [selectedWallet, setSelectedWallet] = useState<string | null>(null);
+  const [progress, setProgress] = useState<FetchProgress | null>(null);
+  const [loadingWallet, setLoadingWallet] = useState<{ index: number; total: number } | null>(null);
+  const [range, setRange] = useState<RangeSpec>(DEFAULT_RANGE);
+  const [token, setToken] = useState<TokenInfo>(loadSelectedToken);
+  const [viewMode, setViewMode] = useState<ViewMode>("portfolio");
+  // Set when the app is running inside a Farcaster client
+  const [viewer, setViewer] = useState<FarcasterViewer | null>(null);
+  // ENS/Basename/Farcaster names for wallets and counterparties, keyed by lowercase address
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [savedHistories, setSavedHistories] = useState<StoredHistory[]>([]);
+  const [watchlist, setWatchlist] = useState<WatchlistEntry[]>(loadWatchlist);
+  const [liveMode, setLiveMode] = useState(false);
+  const [notifyThreshold, setNotifyThreshold] = useState(loadNotifyThreshold);
+  // Lowercase hashes of transfers picked up by live mode since the last manual load
+  const [highlighted, setHighlighted] = useState<Set<string>>(() => new Set());
+
+  const viewWallets = useMemo(
+    () => (selectedWallet ? wallets.filter((w) => w.address === selectedWallet) : wallets),
+    [wallets, selectedWallet],
+  );
+  const owner = useMemo(() => viewWallets.map((w) => w.address), [viewWallets]);
+  const unwatched = useMemo(() => {
+    const watched = new Set(watchlist.map((entry) => entry.address));
+    return wallets.map((w) => w.address.toLowerCase()).filter((a) => !watched.has(a));
+  }, [wallets, watchlist]);
+  // The header switcher shows the watched wallet on screen, if there is exactly one
+  const currentWatched = wallets.length === 1 && unwatched.length === 0 ? wallets[0].address.toLowerCase() : null;
+  const isCapped = viewWallets.some((w) => w.capped);
+  const isOffline = viewWallets.some((w) => w.offline);
+  // The oldest sync among the wallets on screen is what the numbers are only as fresh as
+  const updatedAt = viewWallets.length > 0 ? Math.min(...viewWallets.map((w) => w.updatedAt)) : null;
+
+  const ledger = useMemo(
+    () =>
+      viewWallets.length > 0
+        ? processTransactionData(mergeWalletRows(viewWallets), owner, {
+            onChainBalance: combinedOnChainBalance(viewWallets),
+            range,
+            markets: token.markets,
+          })
+        : null,
+    [viewWallets, owner, range, token],
+  );
+  const comparison = useMemo(
+    () => (viewMode === "compare" && wallets.length > 1 ? compareWallets(token, wallets, range) : null),
+    [viewMode, wallets, range, token],
+  );
+  const stats = ledger?.stats ?? null;
+  const txData = ledger?.periodTx ?? null;
+  const [balanceUnit, setBalanceUnit] = useState<"token" | "usd">("token");
+  const { prices, error: priceError } = usePriceSeries(token, stats?.firstTransferMs ?? null);
+  const currentPrice = prices ? latestPrice(prices) : null;
+  const showUsd = balanceUnit === "usd" && prices !== null;
+  // Points before the first price have no USD value; null leaves a gap in the line instead of a drop to zero
+  const chartData = useMemo(() => {
+    const points = ledger?.balanceChart ?? null;
+    if (!points || !showUsd) return points;
+    return points.map((point) => {
+      const price = priceAt(prices, point.endMs);
+      return { ...point, balance: price === null ? null : point.balance * price };
     });
+  }, [ledger, showUsd, prices]);
+  const unpricedPoints = chartData?.filter((point) => point.balance === null).length ?? 0;
+  const formatBalance = showUsd ? (value: number) => formatUsd(value) : formatCompactNumber;
 
-    const result: TransactionData[] = [];
-    for (let i = 9; i >= 0; i--) {
-      const date = new Date(now - i * 24 * 60 * 60 * 1000);
-      const dateKey = `${date.getMonth() + 1}/${date.getDate()}`;
-      result.push(
-        dayMap[dateKey] || { day: dateKey, received: 0, sent: 0, net: 0 }
-      );
-    }
-
-    return result;
-  };
-
-  // Build a 10-day balance series anchored to currentBalance
-  const generateBalanceChartFromCurrent = (
-    rawTransfers: any[],
-    userAddress: string,
-    currentBalance: number
-  ): BalanceChartData[] => {
-    const now = Date.now();
-    const user = (userAddress || "").toLowerCase();
-
-    const enriched = rawTransfers
-      .filter(isTransferAction)
-      .map((tx: any) => {
-        const timeMs = toMs(tx.timeStamp);
-        const to = (tx.to || "").toLowerCase();
-        const from = (tx.from || "").toLowerCase();
-        const value = parseValue(tx);
-        const delta = to === user ? value : from === user ? -value : 0;
-        return { timeMs, delta };
-      })
-      .filter((e: any) => !Number.isNaN(e.timeMs))
-      .sort((a: any, b: any) => a.timeMs - b.timeMs);
+  const linkState = useMemo<DeepLinkState>(
+    () => ({ addresses: wallets.map((w) => w.address), token, range, view: viewMode, wallet: selectedWallet }),
+    [wallets, token, range, viewMode, selectedWallet],
+  );
 
-    const deltas = enriched.map((e) => e.delta);
-    const times = enriched.map((e) => e.timeMs);
+  // Mirror the loaded view into the URL so it can be bookmarked or shared
+  useEffect(() => {
+    if (linkState.addresses.length === 0) return;
+    window.history.replaceState(null, "", `${window.location.pathname}${buildSearch(linkState)}`);
+  }, [linkState]);
 
-    const suffixSum: number[] = new Array(deltas.length);
-    let s = 0;
-    for (let i = deltas.length - 1; i >= 0; i--) {
-      s += deltas[i];
-      suffixSum[i] = s;
+  // Name the most frequent counterparties; reverse lookups are one RPC call each, so long tails stay as hex
+  const transfers = ledger?.transfers;
+  useEffect(() => {
+    if (!transfers) return;
+    const counts = new Map<string, number>();
+    for (const tx of transfers) {
+      const counterparty = counterpartyOf(tx).toLowerCase();
+      if (!lookupAddress(counterparty)) counts.set(counterparty, (counts.get(counterparty) ?? 0) + 1);
     }
-
-    const sumDeltasAfter = (t: number) => {
-      let lo = 0;
-      let hi = times.length - 1;
-      let ans = times.length;
-      while (lo <= hi) {
-        const mid = Math.floor((lo + hi) / 2);
-        if (times[mid] > t) {
-          ans = mid;
-          hi = mid - 1;
-        } else {
-          lo = mid + 1;
-        }
-      }
-      if (ans >= times.length) return 0;
-      return suffixSum[ans] || 0;
+    const top = [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_NAMED_COUNTERPARTIES)
+      .map(([address]) => address);
+
+    let cancelled = false;
+    lookupNames([...top, ...wallets.map((w) => w.address)]).then((found) => {
+      if (!cancelled) setNames((prev) => ({ ...found, ...prev }));
+    });
+    return () => {
+      cancelled = true;
     };
+  }, [transfers, wallets]);
+
+  const { lastCheckedAt } = useLiveUpdates({
+    enabled: liveMode,
+    token,
+    wallets,
+    onUpdate: (next, newRows) => {
+      // Every tick re-syncs, so the wallets carry a fresh "Updated" time even when nothing new arrived
+      setWallets(next);
+      refreshSavedHistories();
+      if (newRows.length === 0) return;
+      setHighlighted((prev) => new Set([...prev, ...newRows.map((tx) => tx.hash.toLowerCase())]));
+      notifyTransfers(
+        newRows,
+        next.map((w) => w.address),
+        notifyThreshold,
+      );
+    },
+  });
 
-    const balances: { day: string; balance: number }[] = [];
-    for (let i = 9; i >= 0; i--) {
-      const day = new Date(now - i * 24 * 60 * 60 * 1000);
-      day.setHours(23, 59, 59, 999);
-      const tEnd = day.getTime();
-      const dateKey = `${day.getMonth() + 1}/${day.getDate()}`;
-
-      const after = sumDeltasAfter(tEnd);
-      let balanceAtEnd = currentBalance - after;
-      if (Number.isNaN(balanceAtEnd)) balanceAtEnd = 0;
-      balanceAtEnd = Math.max(0, balanceAtEnd);
-
-      balances.push({ day: dateKey, balance: balanceAtEnd });
-    }
-
-    return balances;
+  const toggleLiveMode = (enabled: boolean) => {
+    setLiveMode(enabled);
+    if (enabled) requestNotifyPermission();
   };
 
-  const calculateActiveStreak = (transfers: any[]) => {
-    if (transfers.length === 0) return 0;
-
-    const now = Date.now();
-    const oneDayMs = 24 * 60 * 60 * 1000;
-
-    const activeDays = new Set<string>();
-    transfers.forEach((tx: any) => {
-      if (!isTransferAction(tx)) return;
-      const txTime = toMs(tx.timeStamp);
-      if (Number.isNaN(txTime)) return;
-      const date = new Date(txTime);
-      const dateKey = `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
-      activeDays.add(dateKey);
-    });
-
-    const sortedDays = Array.from(activeDays).sort().reverse();
-
-    let streak = 0;
-    let currentDate = new Date(now);
-
-    for (let i = 0; i < sortedDays.length; i++) {
-      const checkDate = new Date(currentDate);
-      checkDate.setHours(0, 0, 0, 0);
-      const checkKey = `${checkDate.getFullYear()}-${checkDate.getMonth()}-${checkDate.getDate()}`;
-
-      if (sortedDays.includes(checkKey)) {
-        streak++;
-        currentDate = new Date(currentDate.getTime() - oneDayMs);
-      } else if (i === 0) {
-        currentDate = new Date(currentDate.getTime() - oneDayMs);
-        const yesterdayKey = `${currentDate.getFullYear()}-${currentDate.getMonth()}-${currentDate.getDate()}`;
-        if (sortedDays.includes(yesterdayKey)) {
-          streak++;
-          currentDate = new Date(currentDate.getTime() - oneDayMs);
-        } else {
-          break;
-        }
-      } else {
-        break;
-      }
-    }
-
-    return streak;
+  const changeNotifyThreshold = (value: string) => {
+    setNotifyThreshold(value);
+    saveNotifyThreshold(value);
   };
 
-  // processTransactionData derives stats/chart from transfer-action entries only
-  const processTransactionData = (transfers: any[], userAddress: string) => {
-    const now = Date.now();
-    const tenDaysAgo = now - 10 * 24 * 60 * 60 * 1000;
-    const user = (userAddress || "").toLowerCase();
-
-    const transferActions = transfers.filter(isTransferAction);
-
-    let balanceTenDaysAgo = 0;
-    let receivedLast10Days = 0;
-    let sentLast10Days = 0;
-    let buySharesTotal = 0;
-    let buySharesCount = 0;
-
-    const firstTx = transferActions.reduce((earliest: any, tx: any) => {
-      if (!earliest || parseInt(tx.timeStamp) < parseInt(earliest.timeStamp)) {
-        return tx;
-      }
-      return earliest;
-    }, null);
-
-    const walletCreatedDate = firstTx
-      ? new Date(parseInt(firstTx.timeStamp) * 1000).toLocaleDateString()
-      : "Unknown";
-
-    const activeStreak = calculateActiveStreak(transferActions);
-
-    transferActions.forEach((tx: any) => {
-      const txTime = toMs(tx.timeStamp);
-      if (Number.isNaN(txTime)) return;
-      const value = parseValue(tx);
-
-      const isBuyShares = (tx.functionName || "").includes("handleOps");
-      if (isBuyShares) {
-        buySharesTotal += value;
-        buySharesCount++;
-      }
-
-      if ((tx.to || "").toLowerCase() === user) {
-        if (txTime < tenDaysAgo) {
-          balanceTenDaysAgo += value;
-        } else {
-          receivedLast10Days += value;
-        }
-      } else if ((tx.from || "").toLowerCase() === user) {
-        if (txTime < tenDaysAgo) {
-          balanceTenDaysAgo -= value;
-        } else {
-          sentLast10Days += value;
-        }
-      }
-    });
-
-    const totalReceived = transferActions
-      .filter((tx: any) => (tx.to || "").toLowerCase() === user)
-      .reduce((sum: number, tx: any) => sum + parseValue(tx), 0);
-
-    const totalSent = transferActions
-      .filter((tx: any) => (tx.from || "").toLowerCase() === user)
-      .reduce((sum: number, tx: any) => sum + parseValue(tx), 0);
-
-    const currentBalance = totalReceived - totalSent;
-    const netChangeLast10Days = receivedLast10Days - sentLast10Days;
-
-    const dailyTx = groupTransactionsByDay(transferActions, userAddress);
-
-    const balanceChart = generateBalanceChartFromCurrent(
-      transferActions,
-      userAddress,
-      currentBalance
-    );
-
-    setTxData(dailyTx);
-    setChartData(balanceChart);
-
-    const receiveCount = transferActions.filter(
-      (tx: any) => (tx.to || "").toLowerCase() === user
-    ).length;
-
-    const sendCount = transferActions.filter(
-      (tx: any) => (tx.from || "").toLowerCase() === user
-    ).length;
-
-    setStats({
-      address: `${userAddress.slice(0, 6)}...${userAddress.slice(-4)}`,
-      totalReceived: totalReceived.toFixed(2),
-      totalSent: totalSent.toFixed(2),
-      netBalance: currentBalance.toFixed(2),
-      totalTransactions: transferActions.length,
-      receiveCount,
-      sendCount,
-      currentBalance: currentBalance.toFixed(2),
-      balanceTenDaysAgo: balanceTenDaysAgo.toFixed(2),
-      netChange: netChangeLast10Days.toFixed(2),
-      netChangeLast10Days: netChangeLast10Days.toFixed(2),
-      buySharesTotal: buySharesTotal.toFixed(2),
-      buySharesCount: buySharesCount,
-      activeStreak,
-      walletCreatedDate,
-    });
+  const resetResults = () => {
+    setWallets([]);
+    setSelectedWallet(null);
   };
 
-  const fetchAddressData = async () => {
-    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
-      setError("Please enter a valid ETH address (0x...)");
+  const refreshSavedHistories = (forToken: TokenInfo = token) =>
+    listStoredHistories(forToken.id).then(setSavedHistories);
+
+  const fetchAddressData = async (
+    input: string = address,
+    initialWallet: string | null = null,
+    fullResync = false,
+    forToken: TokenInfo = token,
+  ) => {
+    const entries = parseAddressList(input);
+    if (entries.length === 0 || !entries.every((entry) => isAddress(entry) || isNameInput(entry))) {
+      setError(
+        "Please enter valid ETH addresses (0x...), ENS names, Basenames or Farcaster @usernames, separated by commas or spaces",
+      );
       return;
     }
 
     setIsLoading(true);
     setError("");
+    setProgress(null);
+    setHighlighted(new Set());
 
     try {
-      const BRACKY_CONTRACT = "0x06f71fb90F84b35302d132322A3C90E4477333b0";
-      const CHAIN_ID = "8453";
-
-      const params = new URLSearchParams({
-        module: "account",
-        action: "tokentx",
-        address,
-        contractaddress: BRACKY_CONTRACT,
-        chainid: CHAIN_ID,
-        startblock: "0",
-        endblock: "99999999",
-        sort: "asc",
-      });
-
-      const resp = await fetch(
-        `/.netlify/functions/etherscan-proxy?${params.toString()}`
-      );
-
-      if (!resp.ok) {
-        const errBody = await resp
-          .json()
-          .catch(() => ({ message: "Unknown error" }));
-        setError(
-          `Proxy error: ${errBody.error || errBody.message || resp.statusText}`
-        );
-        setTxData(null);
-        setChartData(null);
-        setStats(null);
-        setIsLoading(false);
-        return;
+      const resolved = await resolveAddressInputs(entries);
+      const addresses = resolved.addresses;
+      setNames((prev) => ({ ...prev, ...resolved.names }));
+
+      const loaded: WalletData[] = [];
+      // One wallet at a time so the proxy's Etherscan rate limit isn't multiplied by the portfolio size
+      for (const [index, wallet] of addresses.entries()) {
+        setLoadingWallet({ index, total: addresses.length });
+        loaded.push(await loadWallet(forToken, wallet, { onProgress: setProgress, fullResync }));
       }
 
-      const data = await resp.json();
+      const rows = mergeWalletRows(loaded);
+      const noun = addresses.length === 1 ? "this address" : "these addresses";
 
-      if (data.status === "0" || data.message === "NOTOK") {
-        const errorMsg = data.result || data.message || "Unknown API error";
-        setError(`API Error: ${errorMsg}`);
-        setTxData(null);
-        setChartData(null);
-        setStats(null);
-        setIsLoading(false);
+      if (rows.length === 0) {
+        setError(`No ${tokenLabel(forToken)} transactions found for ${noun}.`);
+        resetResults();
         return;
       }
 
-      if (
-        !data.result ||
-        !Array.isArray(data.result) ||
-        data.result.length === 0
-      ) {
-        setError("No $BRACKY transactions found for this address.");
-        setTxData(null);
-        setChartData(null);
-        setStats(null);
-        setIsLoading(false);
-        return;
-      }
-
-      // Basic defensive filter: only token transfer-like entries (no NFT id, has decimals/symbol/value)
-      const transfers = data.result.filter(
-        (tx: {
-          tokenDecimal: any;
-          tokenSymbol: any;
-          tokenID: any;
-          value: string;
-        }) =>
-          tx.tokenDecimal &&
-          tx.tokenSymbol &&
-          !tx.tokenID &&
-          tx.value &&
-          tx.value !== "0"
-      );
-
-      setAllTransfers(transfers);
-
-      if (transfers.length === 0) {
-        setError("No ERC-20 $BRACKY token transfers found for this address.");
-        setTxData(null);
-        setChartData(null);
-        setStats(null);
-        setIsLoading(false);
+      if (normalizeTransfers(rows).length === 0) {
+        setError(`No ERC-20 ${tokenLabel(forToken)} token transfers found for ${noun}.`);
+        resetResults();
         return;
       }
 
-      processTransactionData(transfers, address);
+      setWallets(loaded);
+      setSelectedWallet(initialWallet);
     } catch (err) {
       console.error("API Error:", err);
-      setError("Failed to fetch data. Check server logs and configuration.");
+      setError(
+        err instanceof EtherscanError || err instanceof NameResolutionError || err instanceof RpcSourceError
+          ? err.message
+          : "Failed to fetch data. Check server logs and configuration.",
+      );
+      resetResults();
     } finally {
       setIsLoading(false);
+      setProgress(null);
+      setLoadingWallet(null);
+      refreshSavedHistories(forToken);
     }
   };
 
-  // Table: only include transactions where functionName indicates ERC-20 transfer
-  const transferOnlyForTable = allTransfers.filter((tx) =>
-    isTransferFunction(tx)
-  );
-  const sortedTransferOnly = [...transferOnlyForTable].sort(
-    (a, b) => toMs(b.timeStamp) - toMs(a.timeStamp)
-  );
+  const openSavedWallet = (saved: string) => {
+    setAddress(saved);
+    fetchAddressData(saved);
+  };
 
-  const handleTrack = () => fetchAddressData();
-  const isPositive = stats && parseFloat(stats.netChangeLast10Days) >= 0;
+  const forgetSavedWallet = async (saved: string) => {
+    await deleteStoredHistory(token.id, saved);
+    refreshSavedHistories();
+  };
 
+  const changeWatchlist = (update: (entries: WatchlistEntry[]) => WatchlistEntry[]) => {
+    setWatchlist((prev) => {
+      const next = update(prev);
+      saveWatchlist(next);
+      return next;
+    });
+  };
+
+  // Histories are per token, so the wallets on screen are loaded again for the new one
+  const changeToken = (next: TokenInfo) => {
+    setToken(next);
+    saveSelectedToken(next);
+    setError("");
+    if (wallets.length > 0) {
+      fetchAddressData(wallets.map((w) => w.address).join(", "), selectedWallet, false, next);
+    } else {
+      refreshSavedHistories(next);
+    }
+  };
+
+  const handleResync = () => fetchAddressData(wallets.map((w) => w.address).join(", "), selectedWallet, true);
+
+  // The startup effect runs once; read the loaders through refs so it never calls a stale render's copy
+  const fetchAddressDataRef = useRef(fetchAddressData);
+  const refreshSavedHistoriesRef = useRef(refreshSavedHistories);
+  fetchAddressDataRef.current = fetchAddressData;
+  refreshSavedHistoriesRef.current = refreshSavedHistories;
+
+  // Deep links (?address=0x...&range=30d) load straight into the linked view. Otherwise, inside a Farcaster
+  // client, the viewer's own wallets are tracked.
   useEffect(() => {
-    if (allTransfers.length > 0 && address) {
-      processTransactionData(allTransfers, address);
+    refreshSavedHistoriesRef.current();
+    const link = parseDeepLink(window.location.search);
+    if (link.addresses.length > 0) {
+      const input = link.addresses.join(", ");
+      setAddress(input);
+      setRange(link.range);
+      setViewMode(link.view);
+      setToken(link.token);
+      fetchAddressDataRef.current(input, link.wallet, false, link.token);
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [allTransfers, address]);
+
+    initMiniApp()
+      .then((miniAppViewer) => {
+        if (!miniAppViewer) return;
+        setViewer(miniAppViewer);
+        if (link.addresses.length > 0 || miniAppViewer.addresses.length === 0) return;
+        const input = miniAppViewer.addresses.join(", ");
+        setAddress(input);
+        fetchAddressDataRef.current(input);
+      })
+      .catch((err) => console.warn("Farcaster mini app init failed:", err));
+  }, []);
+
+  const handleTrack = () => fetchAddressData();
+  const isPositive = stats && stats.netChange >= 0n;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-blue-100">
@@ -500,41 +330,53 @@ export default function App() {
         <div className="max-w-6xl mx-auto px-4 flex items-center gap-3">
           <Wallet className="w-8 h-8 md:w-10 md:h-10" />
           <div>
-            <h1 className="text-2xl md:text-3xl font-bold">$Bracky Tracker</h1>
+            <h1 className="text-2xl md:text-3xl font-bold">{tokenUnit(token)} Tracker</h1>
             <p className="text-blue-100 text-sm md:text-base mt-1">
-              Track your Bracky transactions and balance
+              Track your {tokenUnit(token)} transactions and balance
             </p>
           </div>
+          <div className="ml-auto flex items-center gap-3">
+            <WatchlistSwitcher entries={watchlist} names={names} current={currentWatched} onOpen={openSavedWallet} />
+            {viewer && (
+              <div className="flex items-center gap-2 text-sm text-blue-100">
+                {viewer.pfpUrl && (
+                  <img src={viewer.pfpUrl} alt="" className="w-8 h-8 rounded-full border-2 border-white" />
+                )}
+                <span>{viewer.username ? `@${viewer.username}` : `FID ${viewer.fid}`}</span>
+              </div>
+            )}
+          </div>
         </div>
       </div>
 
       <div className="max-w-6xl mx-auto px-4 py-8">
         <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8 mb-8 border-2 border-blue-200">
-          <label className="block text-gray-700 font-semibold mb-4 text-base md:text-lg">
-            Enter ETH Address
-          </label>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <label htmlFor="address-input" className="block text-gray-700 font-semibold text-base md:text-lg">
+              Enter ETH Address(es)
+            </label>
+            <TokenSelector value={token} onChange={changeToken} disabled={isLoading} />
+          </div>
           <div className="flex flex-col sm:flex-row gap-3">
             <input
+              id="address-input"
               type="text"
               value={address}
               onChange={(e) => {
                 setAddress(e.target.value);
                 setError("");
               }}
-              placeholder="0x..."
+              placeholder="0x..., name.eth, name.base.eth or @username (separate multiple with commas)"
               className="flex-1 px-4 py-3 border-2 border-blue-300 rounded-lg focus:outline-none focus:border-blue-600 focus:ring-2 focus:ring-blue-200 transition font-mono text-black text-base md:text-lg"
               onKeyDown={(e) => e.key === "Enter" && handleTrack()}
             />
             <button
+              type="button"
               onClick={handleTrack}
               disabled={isLoading}
               className="bg-gradient-to-r from-blue-600 to-blue-500 hover:from-blue-700 hover:to-blue-600 disabled:bg-gray-400 text-white font-semibold px-8 py-3 rounded-lg transition flex items-center justify-center gap-2 text-base md:text-lg"
             >
-              {isLoading ? (
-                <Loader className="w-5 h-5 animate-spin" />
-              ) : (
-                "Track"
-              )}
+              {isLoading ? <Loader className="w-5 h-5 animate-spin" /> : "Track"}
             </button>
           </div>
           {error && (
@@ -543,64 +385,167 @@ export default function App() {
               <span>{error}</span>
             </div>
           )}
+          {isLoading && progress && (
+            <p className="mt-4 text-sm text-gray-600">
+              {loadingWallet &&
+                loadingWallet.total > 1 &&
+                `Wallet ${loadingWallet.index + 1} of ${loadingWallet.total}: `}
+              Loaded {progress.rows.toLocaleString()} transfers ({progress.requests}{" "}
+              {progress.requests === 1 ? "request" : "requests"}, up to block {progress.lastBlock.toLocaleString()})…
+            </p>
+          )}
+          <SavedWallets
+            histories={savedHistories}
+            names={names}
+            onOpen={openSavedWallet}
+            onForget={forgetSavedWallet}
+          />
+          {isOffline && updatedAt !== null && (
+            <div className="flex items-center gap-2 mt-4 text-amber-700 bg-amber-50 p-4 rounded-lg border-2 border-amber-200 text-sm md:text-base">
+              <AlertCircle className="w-5 h-5 shrink-0" />
+              <span>
+                Couldn't reach the data source. Showing the history saved on {new Date(updatedAt).toLocaleString()}.
+                Newer transfers are missing.
+              </span>
+            </div>
+          )}
+          {isCapped && (
+            <div className="flex items-center gap-2 mt-4 text-amber-700 bg-amber-50 p-4 rounded-lg border-2 border-amber-200 text-sm md:text-base">
+              <AlertCircle className="w-5 h-5 shrink-0" />
+              <span>
+                Transfer history was capped before it could be fully loaded. Balances, totals and wallet age may be
+                incomplete.
+              </span>
+            </div>
+          )}
         </div>
 
-        {stats && txData && chartData && (
+        {(watchlist.length > 0 || wallets.length > 0) && (
+          <Watchlist
+            entries={watchlist}
+            histories={savedHistories}
+            names={names}
+            token={token}
+            unwatched={unwatched}
+            onAdd={(addresses) => changeWatchlist((prev) => addToWatchlist(prev, addresses, names))}
+            onOpen={openSavedWallet}
+            onUpdate={(saved, changes) => changeWatchlist((prev) => updateWatchlistEntry(prev, saved, changes))}
+            onRemove={(saved) => changeWatchlist((prev) => removeFromWatchlist(prev, saved))}
+            onImport={(imported) => changeWatchlist((prev) => mergeWatchlists(prev, imported))}
+          />
+        )}
+
+        {wallets.length > 0 && (
+          <div className="space-y-4 mb-4">
+            {wallets.length > 1 && (
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="flex rounded-lg border-2 border-blue-200 overflow-hidden">
+                  {(["portfolio", "compare"] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => setViewMode(mode)}
+                      className={`px-3 py-1.5 text-sm font-semibold transition ${
+                        viewMode === mode ? "bg-blue-600 text-white" : "bg-white text-blue-700 hover:bg-blue-50"
+                      }`}
+                    >
+                      {mode === "portfolio" ? "Portfolio" : "Compare"}
+                    </button>
+                  ))}
+                </div>
+                {viewMode === "portfolio" && (
+                  <WalletTabs wallets={wallets} selected={selectedWallet} onSelect={setSelectedWallet} names={names} />
+                )}
+              </div>
+            )}
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <RangeSelector value={range} onChange={setRange} />
+              <div className="flex flex-wrap items-center gap-2">
+                <LiveControls
+                  enabled={liveMode}
+                  onToggle={toggleLiveMode}
+                  threshold={notifyThreshold}
+                  onThresholdChange={changeNotifyThreshold}
+                  lastCheckedAt={lastCheckedAt}
+                  unit={tokenUnit(token)}
+                />
+                {updatedAt !== null && (
+                  <SyncStatus updatedAt={updatedAt} offline={isOffline} isLoading={isLoading} onResync={handleResync} />
+                )}
+                {ledger && <ShareCastButton ledger={ledger} state={linkState} inMiniApp={viewer !== null} />}
+                <ShareLinkButton state={linkState} />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {comparison && <ComparisonView comparison={comparison} />}
+
+        {!comparison && ledger && stats && txData && chartData && (
           <div className="space-y-4">
+            <ExportMenu ledger={ledger} token={token} addresses={owner} />
+
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
               <div className="bg-white rounded-xl shadow-md p-4 border-l-4 border-blue-500">
                 <p className="text-gray-600 text-xs uppercase mb-1">Address</p>
-                <p className="text-blue-600 font-mono font-bold text-md break-all">
-                  {stats.address}
-                </p>
+                <p className="text-blue-600 font-mono font-bold text-md break-all">{stats.address}</p>
               </div>
               <div className="bg-white rounded-xl shadow-md p-4 border-l-4 border-purple-500">
                 <p className="text-gray-600 text-xs uppercase mb-1">Total TX</p>
-                <p className="text-xl font-bold text-purple-600">
-                  {stats.totalTransactions}
-                </p>
+                <p className="text-xl font-bold text-purple-600">{stats.totalTransactions}</p>
+                {stats.internalCount > 0 && (
+                  <p className="text-gray-500 text-xs mt-1">
+                    {stats.internalCount} internal {stats.internalCount === 1 ? "move" : "moves"} between your wallets
+                  </p>
+                )}
               </div>
               <div className="bg-white rounded-xl shadow-md p-4 border-l-4 border-orange-500">
-                <p className="text-gray-600 text-xs uppercase mb-1">
-                  Active Streak
-                </p>
+                <p className="text-gray-600 text-xs uppercase mb-1">Active Streak</p>
                 <p className="text-xl font-bold text-orange-600">
-                  {stats.activeStreak}{" "}
-                  {stats.activeStreak === 1 ? "day" : "days"}{" "}
-                  {stats.activeStreak > 3 && "🔥"}
+                  {stats.activeStreak} {stats.activeStreak === 1 ? "day" : "days"} {stats.activeStreak > 3 && "🔥"}
                 </p>
               </div>
               <div className="bg-white rounded-xl shadow-md p-4 border-l-4 border-teal-500">
-                <p className="text-gray-600 text-xs uppercase mb-1">
-                  Wallet Created
-                </p>
-                <p className="text-xl font-bold text-teal-600">
-                  {stats.walletCreatedDate}
-                </p>
+                <p className="text-gray-600 text-xs uppercase mb-1">Wallet Created</p>
+                <p className="text-xl font-bold text-teal-600">{stats.walletCreatedDate}</p>
               </div>
               <div className="bg-white rounded-xl shadow-md p-4 border-l-4 border-indigo-500">
-                <p className="text-gray-600 text-xs uppercase mb-1">
-                  Balance 10d Ago
-                </p>
+                <p className="text-gray-600 text-xs uppercase mb-1">Balance at Range Start</p>
                 <p className="text-xl font-bold text-indigo-600">
-                  {formatCompactNumber(parseFloat(stats.balanceTenDaysAgo))}
+                  {formatTokenAmount(stats.balanceAtRangeStart, stats.decimals, { compact: true })}
                 </p>
               </div>
               <div className="bg-white rounded-xl shadow-md p-4 border-l-4 border-yellow-500">
-                <p className="text-gray-600 text-xs uppercase mb-1">
-                  Current Balance
-                </p>
+                <p className="text-gray-600 text-xs uppercase mb-1">Current Balance</p>
                 <p className="text-xl font-bold text-yellow-600">
-                  {formatCompactNumber(parseFloat(stats.currentBalance))}
+                  {formatTokenAmount(stats.currentBalance, stats.decimals, { compact: true })}
+                </p>
+                {currentPrice !== null && (
+                  <p className="text-gray-700 text-sm font-semibold">
+                    ≈ {formatUsd(toUsd(stats.currentBalance, stats.decimals, currentPrice))}
+                  </p>
+                )}
+                <p className="text-gray-500 text-xs mt-1">
+                  {stats.onChainBalance === null ? "Derived from transfers" : "Read on-chain"}
                 </p>
               </div>
             </div>
 
+            {stats.balanceDiscrepancy !== 0n && (
+              <div className="flex items-start gap-2 text-amber-700 bg-amber-50 p-4 rounded-lg border-2 border-amber-200 text-sm md:text-base">
+                <AlertCircle className="w-5 h-5 shrink-0 mt-0.5" />
+                <span>
+                  On-chain balance ({formatTokenAmount(stats.currentBalance, stats.decimals)}) differs from the balance
+                  derived from transfers ({formatTokenAmount(stats.netBalance, stats.decimals)}) by{" "}
+                  {formatTokenAmount(stats.balanceDiscrepancy, stats.decimals, { signed: true })} {tokenUnit(token)}.
+                  The transfer history may be incomplete; charts are anchored to the on-chain balance.
+                </span>
+              </div>
+            )}
+
             <div
               className={`rounded-xl shadow-lg p-5 flex flex-col sm:flex-row items-center gap-4 border-2 transition ${
-                isPositive
-                  ? "bg-green-50 border-green-300"
-                  : "bg-red-50 border-red-300"
+                isPositive ? "bg-green-50 border-green-300" : "bg-red-50 border-red-300"
               }`}
             >
               <div
@@ -615,34 +560,27 @@ export default function App() {
                 )}
               </div>
               <div className="text-center sm:text-left flex-1">
-                <p className="text-gray-600 text-md">10-Day Net Change</p>
-                <p
-                  className={`text-2xl sm:text-2xl font-bold ${
-                    isPositive ? "text-green-600" : "text-red-600"
-                  }`}
-                >
-                  {isPositive ? "+" : ""}
-                  {formatCompactNumber(
-                    parseFloat(stats.netChangeLast10Days)
-                  )}{" "}
-                  $BRACKY
+                <p className="text-gray-600 text-md">{describeRange(ledger.range)} Net Change</p>
+                <p className={`text-2xl sm:text-2xl font-bold ${isPositive ? "text-green-600" : "text-red-600"}`}>
+                  {formatTokenAmount(stats.netChange, stats.decimals, { compact: true, signed: true })}{" "}
+                  {tokenUnit(token)}
                 </p>
                 <p className="text-gray-500 text-md mt-1">
-                  {formatCompactNumber(parseFloat(stats.balanceTenDaysAgo))} →{" "}
-                  {formatCompactNumber(parseFloat(stats.currentBalance))}
+                  {formatTokenAmount(stats.balanceAtRangeStart, stats.decimals, { compact: true })} →{" "}
+                  {formatTokenAmount(stats.balanceAtRangeEnd, stats.decimals, { compact: true })}
                 </p>
               </div>
             </div>
 
             <div className="bg-white rounded-xl shadow-lg p-5 border-2 border-blue-200">
               <h2 className="text-base sm:text-lg font-bold text-gray-800 mb-4">
-                Daily Transaction Breakdown
+                {BUCKET_ADJECTIVE[ledger.bucketSize]} Transaction Breakdown
               </h2>
               <ResponsiveContainer width="100%" height={280}>
                 <BarChart data={txData}>
                   <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
                   <XAxis
-                    dataKey="day"
+                    dataKey="label"
                     stroke="#64748b"
                     angle={-45}
                     textAnchor="end"
@@ -665,126 +603,102 @@ export default function App() {
               </ResponsiveContainer>
             </div>
 
-            <div className="bg-white rounded-xl shadow-lg p-5 border-2 border-blue-200">
-              <h2 className="text-base sm:text-lg font-bold text-gray-800 mb-4">
-                10-Day Balance Trend
-              </h2>
-              <ResponsiveContainer width="100%" height={320}>
-                <LineChart data={chartData}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
-                  <XAxis
-                    dataKey="day"
-                    stroke="#64748b"
-                    angle={-45}
-                    textAnchor="end"
-                    height={60}
-                    style={{ fontSize: "13px", fontWeight: 500 }}
-                  />
-                  <YAxis
-                    stroke="#64748b"
-                    tickFormatter={formatCompactNumber}
-                    style={{ fontSize: "13px", fontWeight: 500 }}
-                  />
-                  <Tooltip
-                    formatter={(value: number) =>
-                      formatCompactNumber(Number(value))
-                    }
-                    contentStyle={{ fontSize: "13px" }}
-                    labelFormatter={() => ""}
-                  />
-                  <Line
-                    type="monotone"
-                    dataKey="balance"
-                    stroke="#3b82f6"
-                    strokeWidth={3}
-                    dot={{ r: 4 }}
-                    activeDot={{ r: 6 }}
-                  />
-                </LineChart>
-              </ResponsiveContainer>
-            </div>
-
-            <div className="bg-white rounded-xl shadow-lg border-2 border-blue-200">
-              <button
-                onClick={() => setIsTableOpen(!isTableOpen)}
-                className="w-full p-5 flex items-center justify-between hover:bg-gray-50 transition"
-              >
-                <h2 className="text-base sm:text-lg font-bold text-gray-800">
-                  Deposits and Withdrawals ({sortedTransferOnly.length})
-                </h2>
-                {isTableOpen ? (
-                  <ChevronUp className="w-5 h-5 text-gray-600" />
-                ) : (
-                  <ChevronDown className="w-5 h-5 text-gray-600" />
-                )}
-              </button>
-
-              {isTableOpen && (
-                <div className="px-5 pb-5">
-                  <div className="overflow-x-auto -mx-5 px-5">
-                    <table className="w-full text-left border-collapse min-w-[500px]">
-                      <thead>
-                        <tr className="border-b border-gray-200">
-                          <th className="py-2 px-2 text-sm">Amount</th>
-                          <th className="py-2 px-2 text-sm">Date</th>
-                          <th className="py-2 px-2 text-sm">Type</th>
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {sortedTransferOnly.map((tx) => {
-                          const value = parseValue(tx);
-                          const date = new Date(
-                            toMs(tx.timeStamp)
-                          ).toLocaleDateString();
-
-                          let type = "—";
-                          if (address) {
-                            if (
-                              (tx.to || "").toLowerCase() ===
-                              address.toLowerCase()
-                            ) {
-                              type = "Deposit";
-                            } else if (
-                              (tx.from || "").toLowerCase() ===
-                              address.toLowerCase()
-                            ) {
-                              type = "Withdrawal";
-                            }
-                          }
-
-                          return (
-                            <tr
-                              key={tx.hash}
-                              className="border-b border-gray-100"
-                            >
-                              <td className="py-2 px-2 text-sm">
-                                {formatCompactNumber(value)}
-                              </td>
-                              <td className="py-2 px-2 text-xs text-gray-600">
-                                {date}
-                              </td>
-                              <td className="py-2 px-2 text-sm">
-                                <span
-                                  className={`${
-                                    type === "Deposit"
-                                      ? "text-green-600"
-                                      : type === "Withdrawal"
-                                        ? "text-red-600"
-                                        : "text-gray-600"
-                                  } font-semibold`}
-                                >
-                                  {type}
-                                </span>
-                              </td>
-                            </tr>
-                          );
-                        })}
-                      </tbody>
-                    </table>
-                  </div>
+            <div className={`grid grid-cols-1 gap-4 ${token.markets ? "lg:grid-cols-2" : ""}`}>
+              <div className="bg-white rounded-xl shadow-lg p-5 border-2 border-blue-200">
+                <div className="flex items-center justify-between gap-2 mb-4">
+                  <h2 className="text-base sm:text-lg font-bold text-gray-800">
+                    {describeRange(ledger.range)} Balance Trend
+                  </h2>
+                  {prices && (
+                    <div className="flex rounded-lg border-2 border-blue-200 overflow-hidden">
+                      {(["token", "usd"] as const).map((unit) => (
+                        <button
+                          key={unit}
+                          type="button"
+                          onClick={() => setBalanceUnit(unit)}
+                          className={`px-3 py-1 text-sm font-semibold transition ${
+                            balanceUnit === unit ? "bg-blue-600 text-white" : "bg-white text-blue-700 hover:bg-blue-50"
+                          }`}
+                        >
+                          {unit === "token" ? tokenUnit(token) : "USD"}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
-              )}
+                <ResponsiveContainer width="100%" height={320}>
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+                    <XAxis
+                      dataKey="label"
+                      stroke="#64748b"
+                      angle={-45}
+                      textAnchor="end"
+                      height={60}
+                      style={{ fontSize: "13px", fontWeight: 500 }}
+                    />
+                    <YAxis
+                      stroke="#64748b"
+                      tickFormatter={formatBalance}
+                      style={{ fontSize: "13px", fontWeight: 500 }}
+                    />
+                    <Tooltip
+                      formatter={(value: number) => formatBalance(Number(value))}
+                      contentStyle={{ fontSize: "13px" }}
+                      labelFormatter={() => ""}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="balance"
+                      stroke="#3b82f6"
+                      strokeWidth={3}
+                      dot={{ r: 4 }}
+                      activeDot={{ r: 6 }}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+                {unpricedPoints > 0 && prices && (
+                  <p className="mt-3 text-sm text-amber-700">
+                    USD trend incomplete: {unpricedPoints} point{unpricedPoints === 1 ? "" : "s"} before the first price
+                    ({prices.days[0]} UTC) {unpricedPoints === 1 ? "is" : "are"} left blank.
+                  </p>
+                )}
+              </div>
+              {token.markets && <PnlChart pnl={ledger.pnl} />}
             </div>
+
+            {token.markets && <PnlSummary pnl={ledger.pnl} decimals={stats.decimals} />}
+
+            {prices ? (
+              <ValuationPanel
+                ledger={ledger}
+                prices={prices}
+                unit={tokenUnit(token)}
+                markets={token.markets ?? false}
+              />
+            ) : (
+              priceError && <p className="text-sm text-gray-500">USD values unavailable: {priceError}</p>
+            )}
+
+            <CategoryBreakdown stats={stats} />
+
+            <ActivityPanel activity={ledger.activity} unit={tokenUnit(token)} />
+
+            <CounterpartyPanel
+              transfers={ledger.transfers}
+              decimals={stats.decimals}
+              names={names}
+              timeZone={ledger.range.timeZone}
+              unit={tokenUnit(token)}
+            />
+
+            <TransferTable
+              transfers={ledger.transfers}
+              names={names}
+              highlighted={highlighted}
+              timeZone={ledger.range.timeZone}
+              token={token}
+            />
           </div>
         )}
 
@@ -792,7 +706,7 @@ export default function App() {
           <div className="text-center py-16">
             <Wallet className="w-12 h-12 text-blue-300 mx-auto mb-4 opacity-50" />
             <p className="text-gray-500 text-lg">
-              Enter an ETH address to track $BRACKY ERC-20 transactions
+              Enter an ETH address to track {tokenLabel(token)} ERC-20 transactions
             </p>
           </div>
         )}
@@ -800,7 +714,7 @@ export default function App() {
 
       <div className="bg-blue-600 text-white text-center py-4 mt-12">
         <p className="text-sm text-blue-100">
-          $BRACKY Token Tracker • Base L2 Network
+          {tokenUnit(token)} Token Tracker • {chainOf(token).name} Network • Data via {dataSource.label}
         </p>
       </div>
     </div>
@@ -0,0 +1,139 @@
+import { type ActivityDay, type ActivitySummary, WEEKDAY_LABELS, describeStreak } from "@/lib/activity";
+import { TIME_ZONE_LABELS, formatDate } from "@/lib/dates";
+import { formatCompactNumber } from "@/lib/format";
+import { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+interface ActivityPanelProps {
+  activity: ActivitySummary;
+  // Token label for volumes, e.g. "$BRACKY"
+  unit: string;
+}
+
+type HeatmapMetric = "count" | "volume";
+
+// Empty plus four intensity steps, as on GitHub
+const HEAT_COLORS = ["bg-gray-100", "bg-blue-200", "bg-blue-400", "bg-blue-600", "bg-blue-800"];
+
+const heatLevel = (value: number, max: number): number => (value <= 0 || max <= 0 ? 0 : Math.ceil((value / max) * 4));
+
+// Group the calendar into Monday-first week columns
+const toWeeks = (days: ActivityDay[]): ActivityDay[][] => {
+  const weeks: ActivityDay[][] = [];
+  for (let i = 0; i < days.length; i += 7) weeks.push(days.slice(i, i + 7));
+  return weeks;
+};
+
+export function ActivityPanel({ activity, unit }: ActivityPanelProps) {
+  const [metric, setMetric] = useState<HeatmapMetric>("count");
+  const tz = activity.timeZone;
+
+  const weeks = useMemo(() => toWeeks(activity.calendar), [activity.calendar]);
+  const max = useMemo(() => Math.max(0, ...activity.calendar.map((day) => day[metric])), [activity.calendar, metric]);
+
+  const describeDay = (day: ActivityDay) =>
+    `${formatDate(day.startMs, tz, { month: "short", day: "numeric", year: "numeric" })}: ${day.count} ${
+      day.count === 1 ? "transfer" : "transfers"
+    }, ${formatCompactNumber(day.volume)} ${unit}`;
+
+  const { currentStreak, longestStreak } = activity;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-5 border-2 border-blue-200 space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-base sm:text-lg font-bold text-gray-800">Activity ({TIME_ZONE_LABELS[tz]} days)</h2>
+        <div className="flex rounded-lg border-2 border-blue-200 overflow-hidden">
+          {(["count", "volume"] as const).map((m) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMetric(m)}
+              className={`px-3 py-1 text-sm font-semibold transition ${
+                metric === m ? "bg-blue-600 text-white" : "bg-white text-blue-700 hover:bg-blue-50"
+              }`}
+            >
+              {m === "count" ? "Transfers" : "Volume"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="flex gap-2 w-max">
+          <div className="grid grid-rows-7 gap-[3px] text-[10px] leading-3 text-gray-500">
+            {WEEKDAY_LABELS.map((label, i) => (
+              <span key={label} className="h-3">
+                {i % 2 === 0 ? label : ""}
+              </span>
+            ))}
+          </div>
+          <div className="flex gap-[3px]">
+            {weeks.map((week) => (
+              <div key={week[0].key} className="grid grid-rows-7 gap-[3px]">
+                {week.map((day) => (
+                  <div
+                    key={day.key}
+                    title={describeDay(day)}
+                    className={`w-3 h-3 rounded-sm ${HEAT_COLORS[heatLevel(day[metric], max)]}`}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        <div className="rounded-lg bg-orange-50 p-3">
+          <p className="text-gray-600 text-xs uppercase mb-1">Current Streak</p>
+          <p className="text-lg font-bold text-orange-600">
+            {currentStreak ? `${currentStreak.days} ${currentStreak.days === 1 ? "day" : "days"}` : "None"}
+          </p>
+          {currentStreak && <p className="text-xs text-gray-500">{describeStreak(currentStreak, tz)}</p>}
+        </div>
+        <div className="rounded-lg bg-purple-50 p-3">
+          <p className="text-gray-600 text-xs uppercase mb-1">Longest Streak</p>
+          <p className="text-lg font-bold text-purple-600">
+            {longestStreak ? `${longestStreak.days} ${longestStreak.days === 1 ? "day" : "days"}` : "None"}
+          </p>
+          {longestStreak && <p className="text-xs text-gray-500">{describeStreak(longestStreak, tz)}</p>}
+        </div>
+        <div className="rounded-lg bg-teal-50 p-3">
+          <p className="text-gray-600 text-xs uppercase mb-1">Active Days</p>
+          <p className="text-lg font-bold text-teal-600">{activity.activeDays.toLocaleString()}</p>
+        </div>
+        <div className="rounded-lg bg-blue-50 p-3">
+          <p className="text-gray-600 text-xs uppercase mb-1">Active Days / Week</p>
+          <p className="text-lg font-bold text-blue-600">{activity.activeDaysPerWeek.toFixed(1)}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Transfers by Hour</h3>
+          <ResponsiveContainer width="100%" height={200}>
+            <BarChart data={activity.hourOfDay}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+              <XAxis dataKey="hour" stroke="#64748b" interval={2} style={{ fontSize: "12px" }} />
+              <YAxis stroke="#64748b" allowDecimals={false} style={{ fontSize: "12px" }} />
+              <Tooltip contentStyle={{ fontSize: "13px" }} labelFormatter={(hour) => `${hour}:00`} />
+              <Bar dataKey="count" fill="#3b82f6" name="Transfers" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Transfers by Day of Week</h3>
+          <ResponsiveContainer width="100%" height={200}>
+            <BarChart data={activity.dayOfWeek}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+              <XAxis dataKey="day" stroke="#64748b" style={{ fontSize: "12px" }} />
+              <YAxis stroke="#64748b" allowDecimals={false} style={{ fontSize: "12px" }} />
+              <Tooltip contentStyle={{ fontSize: "13px" }} />
+              <Bar dataKey="count" fill="#a855f7" name="Transfers" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+}
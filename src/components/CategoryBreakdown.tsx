@@ -0,0 +1,34 @@
+import { CATEGORY_LABELS, CATEGORY_ORDER } from "@/lib/classify";
+import { formatTokenAmount } from "@/lib/format";
+import type { Stats } from "@/lib/types";
+
+interface CategoryBreakdownProps {
+  stats: Stats;
+}
+
+export function CategoryBreakdown({ stats }: CategoryBreakdownProps) {
+  const categories = CATEGORY_ORDER.filter((category) => stats.categoryTotals[category].count > 0);
+  if (categories.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-5 border-2 border-blue-200">
+      <h2 className="text-base sm:text-lg font-bold text-gray-800 mb-4">Activity by Category</h2>
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3">
+        {categories.map((category) => {
+          const { count, volume } = stats.categoryTotals[category];
+          return (
+            <div key={category} className="rounded-lg bg-blue-50 p-3">
+              <p className="text-gray-600 text-xs uppercase mb-1">{CATEGORY_LABELS[category]}</p>
+              <p className="text-lg font-bold text-blue-700">
+                {formatTokenAmount(volume, stats.decimals, { compact: true })}
+              </p>
+              <p className="text-gray-500 text-xs">
+                {count} {count === 1 ? "transfer" : "transfers"}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import type { ComparedWallet, Comparison } from "@/lib/compare";
+import { formatCompactNumber, formatTokenAmount } from "@/lib/format";
+import { BUCKET_ADJECTIVE, describeRange } from "@/lib/range";
+import type { ReactNode } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+interface ComparisonViewProps {
+  comparison: Comparison;
+}
+
+// `marketsOnly` rows are hidden for tokens that aren't traded on Bracky's markets
+const METRICS: { label: string; marketsOnly?: boolean; render: (wallet: ComparedWallet) => ReactNode }[] = [
+  {
+    label: "Current Balance",
+    render: ({ ledger: { stats } }) => formatTokenAmount(stats.currentBalance, stats.decimals, { compact: true }),
+  },
+  {
+    label: "Net Change",
+    render: ({ ledger: { stats } }) => (
+      <span className={stats.netChange >= 0n ? "text-green-600" : "text-red-600"}>
+        {formatTokenAmount(stats.netChange, stats.decimals, { compact: true, signed: true })}
+      </span>
+    ),
+  },
+  {
+    label: "Buy Shares",
+    marketsOnly: true,
+    render: ({ ledger: { stats } }) =>
+      `${formatTokenAmount(stats.buySharesTotal, stats.decimals, { compact: true })} (${stats.buySharesCount} tx)`,
+  },
+  {
+    label: "Active Streak",
+    render: ({ ledger: { stats } }) => `${stats.activeStreak} ${stats.activeStreak === 1 ? "day" : "days"}`,
+  },
+  {
+    label: "Wallet Age",
+    render: ({ walletAgeDays }) => (walletAgeDays === null ? "Unknown" : `${walletAgeDays.toLocaleString()} days`),
+  },
+  {
+    label: "Total TX",
+    render: ({ ledger: { stats } }) => stats.totalTransactions.toLocaleString(),
+  },
+];
+
+const axisStyle = { fontSize: "13px", fontWeight: 500 };
+
+export function ComparisonView({ comparison }: ComparisonViewProps) {
+  const { wallets, markets, balanceChart, netFlowChart } = comparison;
+  const first = wallets[0]?.ledger;
+  if (!first) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-xl shadow-lg p-5 border-2 border-blue-200 overflow-x-auto">
+        <table className="w-full text-left border-collapse min-w-[500px]">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th className="py-2 px-2 text-sm text-gray-600">Metric</th>
+              {wallets.map((wallet) => (
+                <th key={wallet.key} className="py-2 px-2 text-sm font-mono" style={{ color: wallet.color }}>
+                  {wallet.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {METRICS.filter((metric) => markets || !metric.marketsOnly).map((metric) => (
+              <tr key={metric.label} className="border-b border-gray-100">
+                <td className="py-2 px-2 text-sm text-gray-600">{metric.label}</td>
+                {wallets.map((wallet) => (
+                  <td key={wallet.key} className="py-2 px-2 text-sm font-semibold text-gray-800">
+                    {metric.render(wallet)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg p-5 border-2 border-blue-200">
+        <h2 className="text-base sm:text-lg font-bold text-gray-800 mb-4">
+          {BUCKET_ADJECTIVE[first.bucketSize]} Net Flow
+        </h2>
+        <ResponsiveContainer width="100%" height={280}>
+          <BarChart data={netFlowChart}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+            <XAxis dataKey="label" stroke="#64748b" angle={-45} textAnchor="end" height={60} style={axisStyle} />
+            <YAxis stroke="#64748b" tickFormatter={formatCompactNumber} style={axisStyle} />
+            <Tooltip formatter={(value: number) => formatCompactNumber(value)} contentStyle={{ fontSize: "13px" }} />
+            <Legend />
+            {wallets.map((wallet) => (
+              <Bar key={wallet.key} dataKey={wallet.key} fill={wallet.color} name={wallet.label} />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg p-5 border-2 border-blue-200">
+        <h2 className="text-base sm:text-lg font-bold text-gray-800 mb-4">
+          {describeRange(first.range)} Balance Trend
+        </h2>
+        <ResponsiveContainer width="100%" height={320}>
+          <LineChart data={balanceChart}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+            <XAxis dataKey="label" stroke="#64748b" angle={-45} textAnchor="end" height={60} style={axisStyle} />
+            <YAxis stroke="#64748b" tickFormatter={formatCompactNumber} style={axisStyle} />
+            <Tooltip
+              formatter={(value: number) => formatCompactNumber(Number(value))}
+              contentStyle={{ fontSize: "13px" }}
+            />
+            <Legend />
+            {wallets.map((wallet) => (
+              <Line
+                key={wallet.key}
+                type="monotone"
+                dataKey={wallet.key}
+                name={wallet.label}
+                stroke={wallet.color}
+                strokeWidth={3}
+                dot={{ r: 3 }}
+                activeDot={{ r: 5 }}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
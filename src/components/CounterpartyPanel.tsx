@@ -0,0 +1,130 @@
+import { type CounterpartySummary, buildFlowChart, summarizeCounterparties } from "@/lib/counterparties";
+import { type TimeZoneMode, formatDate } from "@/lib/dates";
+import { formatCompactNumber, formatExactAmount, formatTokenAmount } from "@/lib/format";
+import { counterpartyName } from "@/lib/transfer-query";
+import type { ClassifiedTransfer } from "@/lib/types";
+import { useMemo, useState } from "react";
+import { Layer, Rectangle, ResponsiveContainer, Sankey, Tooltip } from "recharts";
+import type { NodeProps } from "recharts/types/chart/Sankey";
+
+interface CounterpartyPanelProps {
+  transfers: ClassifiedTransfer[];
+  decimals: number;
+  names: Record<string, string>;
+  timeZone: TimeZoneMode;
+  // Token label for flow amounts, e.g. "$BRACKY"
+  unit: string;
+}
+
+// Rows shown before "Show all"
+const TOP_ROWS = 10;
+
+const NODE_COLORS = ["#10b981", "#3b82f6", "#ef4444"];
+
+// Sources on the left, the wallet in the middle, destinations on the right; labels sit outside the bars
+function FlowNodeShape({ x, y, width, height, payload }: NodeProps) {
+  const left = payload.depth === 0;
+  return (
+    <Layer>
+      <Rectangle x={x} y={y} width={width} height={height} fill={NODE_COLORS[payload.depth] ?? "#64748b"} />
+      <text
+        x={left ? x - 6 : x + width + 6}
+        y={y + height / 2}
+        textAnchor={left ? "end" : "start"}
+        dominantBaseline="middle"
+        fontSize={12}
+        fill="#334155"
+      >
+        {payload.name}
+      </text>
+    </Layer>
+  );
+}
+
+const amountCell = (value: bigint, decimals: number, signed = false) => (
+  <td className="py-2 px-2 text-sm" title={formatExactAmount(value, decimals)}>
+    {formatTokenAmount(value, decimals, { compact: true, signed })}
+  </td>
+);
+
+export function CounterpartyPanel({ transfers, decimals, names, timeZone, unit }: CounterpartyPanelProps) {
+  const [showAll, setShowAll] = useState(false);
+
+  const counterparties = useMemo(() => summarizeCounterparties(transfers), [transfers]);
+  const flow = useMemo(() => buildFlowChart(counterparties, decimals, names), [counterparties, decimals, names]);
+
+  if (counterparties.length === 0) return null;
+
+  const rows: CounterpartySummary[] = showAll ? counterparties : counterparties.slice(0, TOP_ROWS);
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-5 border-2 border-blue-200 space-y-4">
+      <h2 className="text-base sm:text-lg font-bold text-gray-800">Counterparties ({counterparties.length})</h2>
+
+      {flow.links.length > 0 && (
+        <ResponsiveContainer width="100%" height={320}>
+          <Sankey
+            data={flow}
+            node={FlowNodeShape}
+            nodePadding={24}
+            margin={{ top: 10, right: 140, bottom: 10, left: 140 }}
+            link={{ stroke: "#93c5fd", strokeOpacity: 0.5 }}
+          >
+            <Tooltip formatter={(value: number) => `${formatCompactNumber(Number(value))} ${unit}`} />
+          </Sankey>
+        </ResponsiveContainer>
+      )}
+
+      <div className="overflow-x-auto -mx-5 px-5">
+        <table className="w-full text-left border-collapse min-w-[720px]">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th className="py-2 px-2 text-sm">Counterparty</th>
+              <th className="py-2 px-2 text-sm">Received</th>
+              <th className="py-2 px-2 text-sm">Sent</th>
+              <th className="py-2 px-2 text-sm">Net</th>
+              <th className="py-2 px-2 text-sm">Transfers</th>
+              <th className="py-2 px-2 text-sm">First</th>
+              <th className="py-2 px-2 text-sm">Last</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((c) => (
+              <tr key={c.address} className="border-b border-gray-100">
+                <td className="py-2 px-2 text-sm text-gray-700" title={c.address}>
+                  {counterpartyName(c.address, names)}
+                  {c.kind && c.kind !== "null" && (
+                    <span className="ml-2 px-1.5 py-0.5 rounded bg-blue-100 text-blue-700 text-xs font-semibold">
+                      {c.kind === "bracky" || c.kind === "bracky-market" ? "Bracky" : "Contract"}
+                    </span>
+                  )}
+                </td>
+                {amountCell(c.received, decimals)}
+                {amountCell(c.sent, decimals)}
+                <td
+                  className={`py-2 px-2 text-sm font-semibold ${c.net >= 0n ? "text-green-600" : "text-red-600"}`}
+                  title={formatExactAmount(c.net, decimals)}
+                >
+                  {formatTokenAmount(c.net, decimals, { compact: true, signed: true })}
+                </td>
+                <td className="py-2 px-2 text-sm">{c.count.toLocaleString()}</td>
+                <td className="py-2 px-2 text-xs text-gray-600">{formatDate(c.firstMs, timeZone)}</td>
+                <td className="py-2 px-2 text-xs text-gray-600">{formatDate(c.lastMs, timeZone)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {counterparties.length > TOP_ROWS && (
+        <button
+          type="button"
+          onClick={() => setShowAll(!showAll)}
+          className="text-sm text-blue-700 font-semibold hover:underline"
+        >
+          {showAll ? `Show top ${TOP_ROWS}` : `Show all ${counterparties.length}`}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { buildSummary, downloadFile, exportBaseName, toCsv, toExportRows, toJson } from "@/lib/export";
+import type { TokenInfo } from "@/lib/tokens";
+import type { LedgerResult } from "@/lib/types";
+import { Download } from "lucide-react";
+
+interface ExportMenuProps {
+  ledger: LedgerResult;
+  token: TokenInfo;
+  addresses: string[];
+}
+
+const buttonClass =
+  "flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-semibold border-2 border-blue-200 bg-white text-blue-700 hover:bg-blue-50 transition";
+
+export function ExportMenu({ ledger, token, addresses }: ExportMenuProps) {
+  const baseName = () => {
+    const who = addresses.length === 1 ? addresses[0].toLowerCase() : `portfolio-${addresses.length}`;
+    return exportBaseName(token, who);
+  };
+
+  const exports = [
+    {
+      label: "Transfers CSV",
+      run: () => downloadFile(`${baseName()}-transfers.csv`, toCsv(toExportRows(ledger.transfers)), "text/csv"),
+    },
+    {
+      label: "Transfers JSON",
+      run: () =>
+        downloadFile(`${baseName()}-transfers.json`, toJson(toExportRows(ledger.transfers)), "application/json"),
+    },
+    {
+      label: "Summary JSON",
+      run: () =>
+        downloadFile(`${baseName()}-summary.json`, toJson(buildSummary(ledger, addresses)), "application/json"),
+    },
+    {
+      label: "Chart CSV",
+      run: () => downloadFile(`${baseName()}-series.csv`, toCsv(buildSummary(ledger, addresses).series), "text/csv"),
+    },
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-gray-600 flex items-center gap-1">
+        <Download className="w-4 h-4" /> Export
+      </span>
+      {exports.map((item) => (
+        <button key={item.label} type="button" onClick={item.run} className={buttonClass}>
+          {item.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { formatRelativeTime } from "@/lib/format";
+import { Radio } from "lucide-react";
+
+interface LiveControlsProps {
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  threshold: string;
+  onThresholdChange: (value: string) => void;
+  lastCheckedAt: number | null;
+  // Token label next to the threshold, e.g. "$BRACKY"
+  unit: string;
+}
+
+export function LiveControls({
+  enabled,
+  onToggle,
+  threshold,
+  onThresholdChange,
+  lastCheckedAt,
+  unit,
+}: LiveControlsProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+      <button
+        type="button"
+        onClick={() => onToggle(!enabled)}
+        aria-pressed={enabled}
+        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-semibold border-2 transition ${
+          enabled
+            ? "bg-green-600 border-green-600 text-white"
+            : "bg-white border-blue-200 text-blue-700 hover:bg-blue-50"
+        }`}
+      >
+        <Radio className={`w-4 h-4 ${enabled ? "animate-pulse" : ""}`} />
+        Live
+      </button>
+      {enabled && (
+        <>
+          <label className="flex items-center gap-1">
+            Notify ≥
+            <input
+              type="number"
+              min="0"
+              value={threshold}
+              onChange={(e) => onThresholdChange(e.target.value)}
+              placeholder="any"
+              className="w-24 px-2 py-1 border-2 border-blue-200 rounded-lg text-sm text-black"
+            />
+            {unit}
+          </label>
+          <span className="text-gray-500">
+            {lastCheckedAt ? `Checked ${formatRelativeTime(lastCheckedAt)}` : "Watching for new transfers…"}
+          </span>
+        </>
+      )}
+    </div>
+  );
+}
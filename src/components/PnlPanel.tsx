@@ -0,0 +1,104 @@
+import { formatCompactNumber, formatTokenAmount } from "@/lib/format";
+import { shortAddress } from "@/lib/ledger";
+import type { PnlResult } from "@/lib/pnl";
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+interface PnlChartProps {
+  pnl: PnlResult;
+}
+
+interface PnlSummaryProps {
+  pnl: PnlResult;
+  decimals: number;
+}
+
+const pnlColor = (value: bigint) => (value >= 0n ? "text-green-600" : "text-red-600");
+
+export function PnlChart({ pnl }: PnlChartProps) {
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-5 border-2 border-blue-200">
+      <h2 className="text-base sm:text-lg font-bold text-gray-800 mb-4">Cumulative Realized P&L</h2>
+      <ResponsiveContainer width="100%" height={320}>
+        <LineChart data={pnl.cumulative}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+          <XAxis
+            dataKey="label"
+            stroke="#64748b"
+            angle={-45}
+            textAnchor="end"
+            height={60}
+            style={{ fontSize: "13px", fontWeight: 500 }}
+          />
+          <YAxis stroke="#64748b" tickFormatter={formatCompactNumber} style={{ fontSize: "13px", fontWeight: 500 }} />
+          <Tooltip
+            formatter={(value: number) => formatCompactNumber(Number(value))}
+            contentStyle={{ fontSize: "13px" }}
+            labelFormatter={() => ""}
+          />
+          <ReferenceLine y={0} stroke="#94a3b8" />
+          <Line type="stepAfter" dataKey="pnl" name="P&L" stroke="#a855f7" strokeWidth={3} dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+export function PnlSummary({ pnl, decimals }: PnlSummaryProps) {
+  if (pnl.markets.length === 0) return null;
+  const amount = (value: bigint, signed = false) => formatTokenAmount(value, decimals, { compact: true, signed });
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-5 border-2 border-blue-200">
+      <h2 className="text-base sm:text-lg font-bold text-gray-800 mb-4">Market P&L</h2>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+        <div className="rounded-lg bg-blue-50 p-3">
+          <p className="text-gray-600 text-xs uppercase mb-1">Realized P&L</p>
+          <p className={`text-lg font-bold ${pnlColor(pnl.realized)}`}>{amount(pnl.realized, true)}</p>
+        </div>
+        <div className="rounded-lg bg-blue-50 p-3">
+          <p className="text-gray-600 text-xs uppercase mb-1">Spent on Shares</p>
+          <p className="text-lg font-bold text-blue-700">{amount(pnl.totalCost)}</p>
+        </div>
+        <div className="rounded-lg bg-blue-50 p-3">
+          <p className="text-gray-600 text-xs uppercase mb-1">Payouts & Sales</p>
+          <p className="text-lg font-bold text-blue-700">{amount(pnl.totalProceeds)}</p>
+        </div>
+        <div className="rounded-lg bg-blue-50 p-3">
+          <p className="text-gray-600 text-xs uppercase mb-1">Open Positions</p>
+          <p className="text-lg font-bold text-blue-700">{amount(pnl.openCost)}</p>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse min-w-[500px]">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th className="py-2 px-2 text-sm">Market</th>
+              <th className="py-2 px-2 text-sm">Cost</th>
+              <th className="py-2 px-2 text-sm">Returned</th>
+              <th className="py-2 px-2 text-sm">Realized</th>
+              <th className="py-2 px-2 text-sm">Open</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pnl.markets.map((market) => (
+              <tr key={market.market} className="border-b border-gray-100">
+                <td className="py-2 px-2 text-sm" title={market.market}>
+                  {market.name ?? <span className="font-mono">{shortAddress(market.market)}</span>}
+                  <span className="text-gray-500 text-xs ml-1">
+                    ({market.buys} buys, {market.returns} returns)
+                  </span>
+                </td>
+                <td className="py-2 px-2 text-sm">{amount(market.cost)}</td>
+                <td className="py-2 px-2 text-sm">{amount(market.proceeds)}</td>
+                <td className={`py-2 px-2 text-sm font-semibold ${pnlColor(market.realized)}`}>
+                  {amount(market.realized, true)}
+                </td>
+                <td className="py-2 px-2 text-sm">{amount(market.openCost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
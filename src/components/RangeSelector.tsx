@@ -0,0 +1,70 @@
+import { DEFAULT_TIME_ZONE, TIME_ZONE_LABELS, type TimeZoneMode } from "@/lib/dates";
+import { RANGE_PRESETS, type RangeSpec } from "@/lib/range";
+
+interface RangeSelectorProps {
+  value: RangeSpec;
+  onChange: (value: RangeSpec) => void;
+}
+
+export function RangeSelector({ value, onChange }: RangeSelectorProps) {
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+      <div className="flex flex-wrap gap-2">
+        {RANGE_PRESETS.map((preset) => (
+          <button
+            key={preset.value}
+            type="button"
+            onClick={() => onChange({ ...value, preset: preset.value })}
+            className={`px-3 py-1.5 rounded-lg text-sm font-semibold border-2 transition ${
+              value.preset === preset.value
+                ? "bg-blue-600 border-blue-600 text-white"
+                : "bg-white border-blue-200 text-blue-700 hover:bg-blue-50"
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+      <div
+        className="flex rounded-lg border-2 border-blue-200 overflow-hidden"
+        title="Which calendar days are counted in"
+      >
+        {(Object.keys(TIME_ZONE_LABELS) as TimeZoneMode[]).map((tz) => (
+          <button
+            key={tz}
+            type="button"
+            onClick={() => onChange({ ...value, timeZone: tz })}
+            className={`px-3 py-1.5 text-sm font-semibold transition ${
+              (value.timeZone ?? DEFAULT_TIME_ZONE) === tz
+                ? "bg-blue-600 text-white"
+                : "bg-white text-blue-700 hover:bg-blue-50"
+            }`}
+          >
+            {TIME_ZONE_LABELS[tz]}
+          </button>
+        ))}
+      </div>
+      {value.preset === "custom" && (
+        <div className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="date"
+            aria-label="Range start"
+            value={value.customStart ?? ""}
+            max={value.customEnd}
+            onChange={(e) => onChange({ ...value, customStart: e.target.value })}
+            className="px-2 py-1 border-2 border-blue-200 rounded-lg text-black"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            aria-label="Range end"
+            value={value.customEnd ?? ""}
+            min={value.customStart}
+            onChange={(e) => onChange({ ...value, customEnd: e.target.value })}
+            className="px-2 py-1 border-2 border-blue-200 rounded-lg text-black"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
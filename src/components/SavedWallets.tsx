@@ -0,0 +1,46 @@
+import type { StoredHistory } from "@/lib/history-store";
+import { shortAddress } from "@/lib/ledger";
+import { History, X } from "lucide-react";
+
+interface SavedWalletsProps {
+  histories: StoredHistory[];
+  names: Record<string, string>;
+  onOpen: (address: string) => void;
+  onForget: (address: string) => void;
+}
+
+// Wallets with a history saved in this browser; they open instantly and work offline
+export function SavedWallets({ histories, names, onOpen, onForget }: SavedWalletsProps) {
+  if (histories.length === 0) return null;
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center gap-2">
+      <span className="text-sm text-gray-600 flex items-center gap-1">
+        <History className="w-4 h-4" /> Saved
+      </span>
+      {histories.map((history) => (
+        <span
+          key={history.address}
+          className="flex items-center rounded-lg border-2 border-blue-200 bg-white text-sm font-semibold text-blue-700"
+        >
+          <button
+            type="button"
+            onClick={() => onOpen(history.address)}
+            title={`${history.rows.length.toLocaleString()} transfers, saved ${new Date(history.updatedAt).toLocaleString()}`}
+            className="px-3 py-1 font-mono hover:bg-blue-50 rounded-l-lg transition"
+          >
+            {names[history.address] ?? shortAddress(history.address)}
+          </button>
+          <button
+            type="button"
+            onClick={() => onForget(history.address)}
+            aria-label={`Forget ${history.address}`}
+            className="px-1.5 py-1 text-gray-400 hover:text-red-600 transition"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+}
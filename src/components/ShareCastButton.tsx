@@ -0,0 +1,28 @@
+import { type DeepLinkState, buildShareUrl } from "@/lib/deep-link";
+import { buildStatsCastText, composeStatsCast } from "@/lib/farcaster";
+import type { LedgerResult } from "@/lib/types";
+import { MessageSquare } from "lucide-react";
+
+interface ShareCastButtonProps {
+  ledger: LedgerResult;
+  state: DeepLinkState;
+  inMiniApp: boolean;
+}
+
+export function ShareCastButton({ ledger, state, inMiniApp }: ShareCastButtonProps) {
+  const share = () =>
+    composeStatsCast(buildStatsCastText(ledger, state.token), buildShareUrl(state), inMiniApp).catch((err) =>
+      console.warn("Cast composer failed:", err),
+    );
+
+  return (
+    <button
+      type="button"
+      onClick={share}
+      className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-semibold border-2 border-purple-200 bg-white text-purple-700 hover:bg-purple-50 transition"
+    >
+      <MessageSquare className="w-4 h-4" />
+      Share my stats
+    </button>
+  );
+}
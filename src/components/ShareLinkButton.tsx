@@ -0,0 +1,35 @@
+import { type DeepLinkState, buildShareUrl } from "@/lib/deep-link";
+import { Check, Link } from "lucide-react";
+import { useState } from "react";
+
+interface ShareLinkButtonProps {
+  state: DeepLinkState;
+}
+
+export function ShareLinkButton({ state }: ShareLinkButtonProps) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    const url = buildShareUrl(state);
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      // Clipboard access can be blocked (insecure origin, iframe); let the user copy it by hand
+      console.warn("Clipboard write failed:", err);
+      window.prompt("Copy this link", url);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={copy}
+      className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-semibold border-2 border-blue-200 bg-white text-blue-700 hover:bg-blue-50 transition"
+    >
+      {copied ? <Check className="w-4 h-4" /> : <Link className="w-4 h-4" />}
+      {copied ? "Link copied" : "Copy share link"}
+    </button>
+  );
+}
@@ -0,0 +1,30 @@
+import { formatRelativeTime } from "@/lib/format";
+import { RefreshCw, WifiOff } from "lucide-react";
+
+interface SyncStatusProps {
+  updatedAt: number;
+  offline: boolean;
+  isLoading: boolean;
+  onResync: () => void;
+}
+
+export function SyncStatus({ updatedAt, offline, isLoading, onResync }: SyncStatusProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+      {offline && <WifiOff className="w-4 h-4 text-amber-600" />}
+      <span title={new Date(updatedAt).toLocaleString()}>
+        {offline ? "Offline copy from" : "Updated"} {formatRelativeTime(updatedAt)}
+      </span>
+      <button
+        type="button"
+        onClick={onResync}
+        disabled={isLoading}
+        title="Discard saved history and reload everything from the first block"
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-semibold border-2 border-blue-200 bg-white text-blue-700 hover:bg-blue-50 disabled:opacity-50 transition"
+      >
+        <RefreshCw className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
+        Full resync
+      </button>
+    </div>
+  );
+}
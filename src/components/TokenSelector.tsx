@@ -0,0 +1,35 @@
+import { CHAINS, TOKENS, type TokenInfo, findToken, tokenUnit } from "@/lib/tokens";
+
+interface TokenSelectorProps {
+  value: TokenInfo;
+  onChange: (token: TokenInfo) => void;
+  disabled?: boolean;
+}
+
+// Token picker grouped by chain; every amount, chart and label follows the selection
+export function TokenSelector({ value, onChange, disabled }: TokenSelectorProps) {
+  return (
+    <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+      Token
+      <select
+        value={value.id}
+        disabled={disabled}
+        onChange={(e) => {
+          const token = findToken(e.target.value);
+          if (token) onChange(token);
+        }}
+        className="px-2 py-1.5 border-2 border-blue-300 rounded-lg bg-white text-black disabled:opacity-50"
+      >
+        {CHAINS.map((chain) => (
+          <optgroup key={chain.id} label={chain.name}>
+            {TOKENS.filter((token) => token.chainId === chain.id).map((token) => (
+              <option key={token.id} value={token.id}>
+                {tokenUnit(token)} · {token.name}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+    </label>
+  );
+}
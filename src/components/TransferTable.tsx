@@ -0,0 +1,301 @@
+import { CATEGORY_LABELS, CATEGORY_ORDER, type TransferCategory } from "@/lib/classify";
+import { DEFAULT_TIME_ZONE, type TimeZoneMode, formatDateTime } from "@/lib/dates";
+import { transferKey } from "@/lib/etherscan";
+import { counterpartyOf } from "@/lib/export";
+import { formatExactAmount, formatTokenAmount } from "@/lib/format";
+import { explorerTxUrl } from "@/lib/onchain";
+import { DEFAULT_TOKEN, type TokenInfo, chainOf } from "@/lib/tokens";
+import {
+  DEFAULT_SORT,
+  EMPTY_FILTERS,
+  PAGE_SIZE,
+  type TransferFilters,
+  type TransferSort,
+  type TransferSortKey,
+  counterpartyName,
+  filterTransfers,
+  sortTransfers,
+} from "@/lib/transfer-query";
+import type { ClassifiedTransfer, TransferDirection } from "@/lib/types";
+import { ArrowDown, ArrowUp, ChevronDown, ChevronUp, ExternalLink } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+
+interface TransferTableProps {
+  transfers: ClassifiedTransfer[];
+  // Resolved ENS/Basename names keyed by lowercase address
+  names?: Record<string, string>;
+  // Lowercase hashes of transfers that arrived while live mode was on
+  highlighted?: Set<string>;
+  // Zone for timestamps and the date filter, matching the range selector
+  timeZone?: TimeZoneMode;
+  // Token being tracked; its chain decides which block explorer the hashes link to
+  token?: TokenInfo;
+}
+
+const DIRECTION_LABELS: Record<TransferDirection, string> = {
+  in: "Deposit",
+  out: "Withdrawal",
+  internal: "Internal",
+  none: "—",
+};
+
+const DIRECTION_COLORS: Record<TransferDirection, string> = {
+  in: "text-green-600",
+  out: "text-red-600",
+  internal: "text-blue-600",
+  none: "text-gray-600",
+};
+
+const COLUMNS: { key: TransferSortKey; label: string }[] = [
+  { key: "amount", label: "Amount" },
+  { key: "time", label: "Date" },
+  { key: "direction", label: "Type" },
+  { key: "category", label: "Category" },
+  { key: "counterparty", label: "Counterparty" },
+];
+
+const NO_HIGHLIGHTS = new Set<string>();
+
+const inputClass = "px-2 py-1 border-2 border-blue-200 rounded-lg text-sm text-black";
+
+const pageButtonClass =
+  "px-3 py-1 rounded-lg text-sm font-semibold border-2 border-blue-200 bg-white text-blue-700 hover:bg-blue-50 disabled:opacity-50 transition";
+
+export function TransferTable({
+  transfers,
+  names = {},
+  highlighted = NO_HIGHLIGHTS,
+  timeZone = DEFAULT_TIME_ZONE,
+  token = DEFAULT_TOKEN,
+}: TransferTableProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [filters, setFilters] = useState<TransferFilters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<TransferSort>(DEFAULT_SORT);
+  const [page, setPage] = useState(0);
+
+  // Only offer categories that actually occur in this history
+  const presentCategories = useMemo(
+    () => CATEGORY_ORDER.filter((c) => transfers.some((tx) => tx.category === c)),
+    [transfers],
+  );
+
+  const rows = useMemo(
+    () => sortTransfers(filterTransfers(transfers, filters, names, timeZone), sort, names),
+    [transfers, filters, sort, names, timeZone],
+  );
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const pageRows = rows.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  // Live updates or a shorter history can leave the current page past the end
+  useEffect(() => setPage((p) => Math.min(p, pageCount - 1)), [pageCount]);
+
+  // New filters or a re-sorted list start from the top
+  const updateFilter = <K extends keyof TransferFilters>(key: K, value: TransferFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(0);
+  };
+
+  const clearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setPage(0);
+  };
+
+  // First click sorts amounts and dates largest/newest first, text columns A–Z; a second click flips it
+  const toggleSort = (key: TransferSortKey) => {
+    setSort((prev) =>
+      prev.key === key
+        ? { key, descending: !prev.descending }
+        : { key, descending: key === "amount" || key === "time" },
+    );
+    setPage(0);
+  };
+
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify(EMPTY_FILTERS);
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border-2 border-blue-200">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full p-5 flex items-center justify-between hover:bg-gray-50 transition"
+      >
+        <h2 className="text-base sm:text-lg font-bold text-gray-800">
+          Deposits and Withdrawals ({isFiltered ? `${rows.length} of ${transfers.length}` : transfers.length})
+        </h2>
+        {isOpen ? <ChevronUp className="w-5 h-5 text-gray-600" /> : <ChevronDown className="w-5 h-5 text-gray-600" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-5 pb-5">
+          <div className="flex flex-wrap items-center gap-2 mb-3 text-sm text-gray-700">
+            <input
+              type="search"
+              aria-label="Search transfers"
+              value={filters.search}
+              onChange={(e) => updateFilter("search", e.target.value)}
+              placeholder="Search hash, counterparty or category"
+              className={`${inputClass} flex-1 min-w-[200px]`}
+            />
+            <select
+              aria-label="Filter by category"
+              value={filters.category}
+              onChange={(e) => updateFilter("category", e.target.value as TransferCategory | "all")}
+              className={inputClass}
+            >
+              <option value="all">All categories</option>
+              {presentCategories.map((c) => (
+                <option key={c} value={c}>
+                  {CATEGORY_LABELS[c]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="0"
+              aria-label="Minimum amount"
+              value={filters.minAmount}
+              onChange={(e) => updateFilter("minAmount", e.target.value)}
+              placeholder="Min"
+              className={`${inputClass} w-24`}
+            />
+            <input
+              type="number"
+              min="0"
+              aria-label="Maximum amount"
+              value={filters.maxAmount}
+              onChange={(e) => updateFilter("maxAmount", e.target.value)}
+              placeholder="Max"
+              className={`${inputClass} w-24`}
+            />
+            <input
+              type="date"
+              aria-label="From date"
+              value={filters.fromDate}
+              onChange={(e) => updateFilter("fromDate", e.target.value)}
+              className={inputClass}
+            />
+            <span>–</span>
+            <input
+              type="date"
+              aria-label="To date"
+              value={filters.toDate}
+              onChange={(e) => updateFilter("toDate", e.target.value)}
+              className={inputClass}
+            />
+            {isFiltered && (
+              <button type="button" onClick={clearFilters} className="text-blue-700 font-semibold hover:underline">
+                Clear
+              </button>
+            )}
+          </div>
+          <div className="overflow-x-auto -mx-5 px-5">
+            <table className="w-full text-left border-collapse min-w-[720px]">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  {COLUMNS.map((column) => (
+                    <th
+                      key={column.key}
+                      className="py-2 px-2 text-sm"
+                      aria-sort={sort.key === column.key ? (sort.descending ? "descending" : "ascending") : "none"}
+                    >
+                      <button
+                        type="button"
+                        onClick={() => toggleSort(column.key)}
+                        className="flex items-center gap-1 hover:text-blue-700"
+                      >
+                        {column.label}
+                        {sort.key === column.key &&
+                          (sort.descending ? (
+                            <ArrowDown className="w-3.5 h-3.5" />
+                          ) : (
+                            <ArrowUp className="w-3.5 h-3.5" />
+                          ))}
+                      </button>
+                    </th>
+                  ))}
+                  <th className="py-2 px-2 text-sm">Transaction</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pageRows.map((tx, i) => (
+                  <tr
+                    // Equal transfers in one transaction share a key when the source has no log index
+                    key={`${transferKey(tx)}-${i}`}
+                    className={`border-b border-gray-100 ${highlighted.has(tx.hash.toLowerCase()) ? "bg-green-50" : ""}`}
+                  >
+                    <td
+                      className="py-2 px-2 text-sm"
+                      title={`${formatExactAmount(tx.value, tx.decimals)} $${tx.symbol}`}
+                    >
+                      {formatTokenAmount(tx.value, tx.decimals, { compact: true })}
+                      {highlighted.has(tx.hash.toLowerCase()) && (
+                        <span className="ml-2 px-1.5 py-0.5 rounded bg-green-600 text-white text-xs font-semibold">
+                          New
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 px-2 text-xs text-gray-600 whitespace-nowrap">
+                      {formatDateTime(tx.timeMs, timeZone)}
+                    </td>
+                    <td className="py-2 px-2 text-sm">
+                      <span className={`${DIRECTION_COLORS[tx.direction]} font-semibold`}>
+                        {DIRECTION_LABELS[tx.direction]}
+                      </span>
+                    </td>
+                    <td className="py-2 px-2 text-sm text-gray-700">{CATEGORY_LABELS[tx.category]}</td>
+                    <td className="py-2 px-2 text-sm text-gray-700" title={counterpartyOf(tx)}>
+                      {counterpartyName(counterpartyOf(tx), names)}
+                    </td>
+                    <td className="py-2 px-2 text-sm">
+                      <a
+                        href={explorerTxUrl(token, tx.hash)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        title={`View on ${chainOf(token).explorerName}`}
+                        className="flex items-center gap-1 font-mono text-blue-600 hover:underline"
+                      >
+                        {tx.hash.slice(0, 10)}…
+                        <ExternalLink className="w-3.5 h-3.5" />
+                      </a>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {rows.length === 0 ? (
+            <p className="mt-3 text-sm text-gray-500">No transfers match these filters.</p>
+          ) : (
+            rows.length > PAGE_SIZE && (
+              <div className="flex items-center justify-between gap-2 mt-3 text-sm text-gray-600">
+                <span>
+                  {(page * PAGE_SIZE + 1).toLocaleString()}–
+                  {Math.min((page + 1) * PAGE_SIZE, rows.length).toLocaleString()} of {rows.length.toLocaleString()}
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setPage(page - 1)}
+                    disabled={page === 0}
+                    className={pageButtonClass}
+                  >
+                    Previous
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= pageCount - 1}
+                    className={pageButtonClass}
+                  >
+                    Next
+                  </button>
+                </div>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { type PriceSeries, computeCostBasis, formatPrice, formatUsd, historicalUsd, latestPrice } from "@/lib/prices";
+import type { LedgerResult } from "@/lib/types";
+import { useMemo } from "react";
+
+interface ValuationPanelProps {
+  ledger: LedgerResult;
+  prices: PriceSeries;
+  // Token label for the price line, e.g. "$BRACKY"
+  unit: string;
+  // Show what was spent on Bracky shares; see TokenInfo.markets
+  markets: boolean;
+}
+
+const usdColor = (value: number) => (value >= 0 ? "text-green-600" : "text-red-600");
+
+export function ValuationPanel({ ledger, prices, unit, markets }: ValuationPanelProps) {
+  const { stats, transfers } = ledger;
+
+  const values = useMemo(() => {
+    const received = transfers.filter((tx) => tx.direction === "in");
+    const sent = transfers.filter((tx) => tx.direction === "out");
+    const buys = transfers.filter((tx) => tx.category === "buy_shares");
+    return {
+      received: historicalUsd(received, prices),
+      sent: historicalUsd(sent, prices),
+      buyShares: historicalUsd(buys, prices),
+      basis: computeCostBasis(transfers, prices, stats.currentBalance, stats.decimals),
+    };
+  }, [transfers, prices, stats.currentBalance, stats.decimals]);
+
+  const price = latestPrice(prices);
+  const lastDay = prices.days[prices.days.length - 1];
+
+  const cards = [
+    { label: "Balance Value", value: formatUsd(values.basis.marketValue), color: "text-yellow-600" },
+    { label: "Received (at the time)", value: formatUsd(values.received), color: "text-green-600" },
+    { label: "Sent (at the time)", value: formatUsd(values.sent), color: "text-red-600" },
+    ...(markets
+      ? [{ label: "Shares Bought (at the time)", value: formatUsd(values.buyShares), color: "text-purple-600" }]
+      : []),
+    { label: "Cost Basis", value: formatUsd(values.basis.costBasis), color: "text-gray-800" },
+    {
+      label: "Unrealized P&L",
+      value: formatUsd(values.basis.unrealized, { signed: true }),
+      color: usdColor(values.basis.unrealized),
+    },
+    {
+      label: "Realized P&L",
+      value: formatUsd(values.basis.realized, { signed: true }),
+      color: usdColor(values.basis.realized),
+    },
+  ];
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-5 border-2 border-blue-200">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+        <h2 className="text-base sm:text-lg font-bold text-gray-800">USD Value</h2>
+        {price !== null && (
+          <p className="text-sm text-gray-500">
+            1 {unit} = {formatPrice(price)} ({lastDay} UTC, {prices.source}
+            {prices.stale ? ", out of date" : ""})
+          </p>
+        )}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+        {cards.map((card) => (
+          <div key={card.label} className="rounded-lg bg-blue-50 p-3">
+            <p className="text-gray-600 text-xs uppercase mb-1">{card.label}</p>
+            <p className={`text-lg font-bold ${card.color}`}>{card.value}</p>
+          </div>
+        ))}
+      </div>
+      {values.basis.unpriced > 0 && (
+        <p className="mt-3 text-sm text-amber-700">
+          Cost basis incomplete: {values.basis.unpriced} transfer{values.basis.unpriced === 1 ? "" : "s"} before the
+          first price ({prices.days[0]} UTC) {values.basis.unpriced === 1 ? "is" : "are"} left out of the USD figures.
+        </p>
+      )}
+      <p className="mt-3 text-xs text-gray-500">
+        Historical values use the daily price on the day of each transfer. Cost basis is average cost: deposits are
+        bought at that day's price and withdrawals sell at the running average.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { shortAddress } from "@/lib/ledger";
+import type { WalletData } from "@/lib/types";
+
+interface WalletTabsProps {
+  wallets: WalletData[];
+  // null selects the combined portfolio
+  selected: string | null;
+  onSelect: (address: string | null) => void;
+  // Resolved ENS/Basename/Farcaster names keyed by lowercase address
+  names?: Record<string, string>;
+}
+
+const tabClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-lg text-sm font-semibold border-2 transition ${
+    active ? "bg-blue-600 border-blue-600 text-white" : "bg-white border-blue-200 text-blue-700 hover:bg-blue-50"
+  }`;
+
+export function WalletTabs({ wallets, selected, onSelect, names = {} }: WalletTabsProps) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      <button type="button" onClick={() => onSelect(null)} className={tabClass(selected === null)}>
+        Portfolio ({wallets.length})
+      </button>
+      {wallets.map((wallet) => (
+        <button
+          key={wallet.address}
+          type="button"
+          onClick={() => onSelect(wallet.address)}
+          className={`${tabClass(selected === wallet.address)} font-mono`}
+        >
+          {names[wallet.address.toLowerCase()] ?? shortAddress(wallet.address)}
+        </button>
+      ))}
+    </div>
+  );
+}
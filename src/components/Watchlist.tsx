@@ -0,0 +1,246 @@
+import { downloadFile, exportBaseName } from "@/lib/export";
+import { formatRelativeTime, formatTokenAmount } from "@/lib/format";
+import type { StoredHistory } from "@/lib/history-store";
+import { shortAddress } from "@/lib/ledger";
+import type { TokenInfo } from "@/lib/tokens";
+import {
+  type WatchlistEntry,
+  WatchlistImportError,
+  type WatchlistSummary,
+  exportWatchlist,
+  parseWatchlistImport,
+  summarizeHistory,
+  watchlistLabel,
+} from "@/lib/watchlist";
+import { Download, Pencil, Plus, Star, Upload, X } from "lucide-react";
+import { type ChangeEvent, useMemo, useRef, useState } from "react";
+
+interface WatchlistProps {
+  entries: WatchlistEntry[];
+  histories: StoredHistory[];
+  names: Record<string, string>;
+  // Selected token; names the export file
+  token: TokenInfo;
+  // Loaded wallets that aren't on the list yet; offered as a one-click add
+  unwatched: string[];
+  onAdd: (addresses: string[]) => void;
+  onOpen: (address: string) => void;
+  onUpdate: (address: string, changes: { label: string; note: string }) => void;
+  onRemove: (address: string) => void;
+  onImport: (entries: WatchlistEntry[]) => void;
+}
+
+const buttonClass =
+  "flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-semibold border-2 border-blue-200 bg-white text-blue-700 hover:bg-blue-50 transition";
+
+export function Watchlist({
+  entries,
+  histories,
+  names,
+  token,
+  unwatched,
+  onAdd,
+  onOpen,
+  onUpdate,
+  onRemove,
+  onImport,
+}: WatchlistProps) {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [importError, setImportError] = useState("");
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Cards summarize what is already saved locally; wallets never synced in this browser show no numbers
+  const summaries = useMemo(() => {
+    const watched = new Set(entries.map((entry) => entry.address));
+    return new Map(
+      histories
+        .filter((history) => watched.has(history.address))
+        .map((history) => [history.address, summarizeHistory(history)]),
+    );
+  }, [entries, histories]);
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      onImport(parseWatchlistImport(await file.text()));
+      setImportError("");
+    } catch (err) {
+      setImportError(err instanceof WatchlistImportError ? err.message : "Couldn't read that file.");
+    }
+  };
+
+  const handleExport = () =>
+    downloadFile(`${exportBaseName(token, "watchlist")}.json`, exportWatchlist(entries), "application/json");
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-5 mb-8 border-2 border-blue-200">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h2 className="text-base sm:text-lg font-bold text-gray-800 flex items-center gap-2">
+          <Star className="w-5 h-5 text-yellow-500" /> Watchlist
+        </h2>
+        <div className="flex flex-wrap gap-2">
+          {unwatched.length > 0 && (
+            <button type="button" onClick={() => onAdd(unwatched)} className={buttonClass}>
+              <Plus className="w-4 h-4" />
+              {unwatched.length === 1 ? "Watch this wallet" : `Watch ${unwatched.length} wallets`}
+            </button>
+          )}
+          <button type="button" onClick={() => fileInput.current?.click()} className={buttonClass}>
+            <Upload className="w-4 h-4" /> Import
+          </button>
+          {entries.length > 0 && (
+            <button type="button" onClick={handleExport} className={buttonClass}>
+              <Download className="w-4 h-4" /> Export
+            </button>
+          )}
+          <input ref={fileInput} type="file" accept="application/json,.json" onChange={handleImport} hidden />
+        </div>
+      </div>
+
+      {importError && <p className="mb-3 text-sm text-red-600">{importError}</p>}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">Track a wallet and add it here to switch back to it in one click.</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+          {entries.map((entry) =>
+            editing === entry.address ? (
+              <WatchlistEditor
+                key={entry.address}
+                entry={entry}
+                onSave={(changes) => {
+                  onUpdate(entry.address, changes);
+                  setEditing(null);
+                }}
+                onCancel={() => setEditing(null)}
+              />
+            ) : (
+              <WatchlistCard
+                key={entry.address}
+                entry={entry}
+                label={watchlistLabel(entry, names)}
+                summary={summaries.get(entry.address)}
+                onOpen={() => onOpen(entry.address)}
+                onEdit={() => setEditing(entry.address)}
+                onRemove={() => onRemove(entry.address)}
+              />
+            ),
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface WatchlistCardProps {
+  entry: WatchlistEntry;
+  label: string;
+  summary: WatchlistSummary | undefined;
+  onOpen: () => void;
+  onEdit: () => void;
+  onRemove: () => void;
+}
+
+function WatchlistCard({ entry, label, summary, onOpen, onEdit, onRemove }: WatchlistCardProps) {
+  return (
+    <div className="rounded-xl border-2 border-blue-100 p-3 flex flex-col gap-2">
+      <div className="flex items-start gap-2">
+        <button type="button" onClick={onOpen} className="flex-1 min-w-0 text-left group">
+          <p className="font-bold text-blue-700 truncate group-hover:underline">{label}</p>
+          <p className="text-xs font-mono text-gray-500" title={entry.address}>
+            {shortAddress(entry.address)}
+          </p>
+        </button>
+        <button
+          type="button"
+          onClick={onEdit}
+          aria-label={`Edit ${label}`}
+          className="p-1 text-gray-400 hover:text-blue-600 transition"
+        >
+          <Pencil className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={onRemove}
+          aria-label={`Remove ${label} from watchlist`}
+          className="p-1 text-gray-400 hover:text-red-600 transition"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      {entry.note && <p className="text-sm text-gray-600 whitespace-pre-line">{entry.note}</p>}
+      {summary ? (
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div>
+            <p className="text-xs uppercase text-gray-500">Balance</p>
+            <p className="text-sm font-bold text-gray-800">
+              {formatTokenAmount(summary.balance, summary.decimals, { compact: true })}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs uppercase text-gray-500">7D</p>
+            <p className={`text-sm font-bold ${summary.change7d >= 0n ? "text-green-600" : "text-red-600"}`}>
+              {formatTokenAmount(summary.change7d, summary.decimals, { compact: true, signed: true })}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs uppercase text-gray-500">Streak</p>
+            <p className="text-sm font-bold text-orange-600">
+              {summary.streak} {summary.streak === 1 ? "day" : "days"}
+            </p>
+          </div>
+          <p className="col-span-3 text-xs text-gray-400">As of {formatRelativeTime(summary.updatedAt)}</p>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-400">Not synced in this browser yet. Open it to load the numbers.</p>
+      )}
+    </div>
+  );
+}
+
+interface WatchlistEditorProps {
+  entry: WatchlistEntry;
+  onSave: (changes: { label: string; note: string }) => void;
+  onCancel: () => void;
+}
+
+function WatchlistEditor({ entry, onSave, onCancel }: WatchlistEditorProps) {
+  const [label, setLabel] = useState(entry.label);
+  const [note, setNote] = useState(entry.note);
+
+  return (
+    <div className="rounded-xl border-2 border-blue-300 p-3 flex flex-col gap-2">
+      <p className="text-xs font-mono text-gray-500">{shortAddress(entry.address)}</p>
+      <input
+        type="text"
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        placeholder="Label"
+        aria-label="Label"
+        className="px-2 py-1 border-2 border-blue-200 rounded-lg text-sm text-black"
+      />
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Notes"
+        aria-label="Notes"
+        rows={2}
+        className="px-2 py-1 border-2 border-blue-200 rounded-lg text-sm text-black"
+      />
+      <div className="flex gap-2 justify-end">
+        <button type="button" onClick={onCancel} className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800">
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onSave({ label: label.trim(), note: note.trim() })}
+          className="px-3 py-1 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700 transition"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { type WatchlistEntry, watchlistLabel } from "@/lib/watchlist";
+
+interface WatchlistSwitcherProps {
+  entries: WatchlistEntry[];
+  names: Record<string, string>;
+  // Lowercase address of the wallet on screen, when it is a single watched wallet
+  current: string | null;
+  onOpen: (address: string) => void;
+}
+
+// Header drop-down for jumping between watched wallets
+export function WatchlistSwitcher({ entries, names, current, onOpen }: WatchlistSwitcherProps) {
+  if (entries.length === 0) return null;
+
+  return (
+    <select
+      aria-label="Switch to a watched wallet"
+      value={current ?? ""}
+      onChange={(e) => e.target.value && onOpen(e.target.value)}
+      className="max-w-48 px-2 py-1.5 rounded-lg bg-blue-700 border-2 border-blue-300 text-sm font-semibold text-white"
+    >
+      <option value="">Watchlist…</option>
+      {entries.map((entry) => (
+        <option key={entry.address} value={entry.address}>
+          {watchlistLabel(entry, names)}
+        </option>
+      ))}
+    </select>
+  );
+}
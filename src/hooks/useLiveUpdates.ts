@@ -0,0 +1,60 @@
+import { LIVE_POLL_MS, findNewRows } from "@/lib/live";
+import { loadWallet } from "@/lib/portfolio";
+import type { TokenInfo } from "@/lib/tokens";
+import type { EtherscanTokenTx, WalletData } from "@/lib/types";
+import { useEffect, useRef, useState } from "react";
+
+interface LiveUpdatesOptions {
+  enabled: boolean;
+  token: TokenInfo;
+  wallets: WalletData[];
+  // Called after each successful tick with the re-synced wallets (fresh `updatedAt`) and the rows that weren't there
+  // before, which may be none
+  onUpdate: (wallets: WalletData[], newRows: EtherscanTokenTx[]) => void;
+}
+
+// Poll the data source for new transfers while live mode is on. Returns when the last check finished.
+export function useLiveUpdates({ enabled, token, wallets, onUpdate }: LiveUpdatesOptions) {
+  const [lastCheckedAt, setLastCheckedAt] = useState<number | null>(null);
+  // The interval outlives renders; read the current wallets and callback through refs
+  const walletsRef = useRef(wallets);
+  const onUpdateRef = useRef(onUpdate);
+  walletsRef.current = wallets;
+  onUpdateRef.current = onUpdate;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let inFlight = false;
+    let cancelled = false;
+
+    const tick = async () => {
+      // A slow sync shouldn't stack up behind itself
+      if (inFlight || walletsRef.current.length === 0) return;
+      inFlight = true;
+      const previous = walletsRef.current;
+      try {
+        const next: WalletData[] = [];
+        for (const wallet of previous) {
+          next.push(await loadWallet(token, wallet.address));
+        }
+        // The user may have tracked other wallets while this tick was running
+        if (cancelled || walletsRef.current !== previous) return;
+        onUpdateRef.current(next, findNewRows(previous, next));
+        setLastCheckedAt(Date.now());
+      } catch (err) {
+        console.warn("Live update failed:", err);
+      } finally {
+        inFlight = false;
+      }
+    };
+
+    const timer = setInterval(tick, LIVE_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [enabled, token]);
+
+  return { lastCheckedAt };
+}
@@ -0,0 +1,37 @@
+import { dayKey } from "@/lib/dates";
+import { PriceError, type PriceSeries, fetchPriceSeries } from "@/lib/prices";
+import type { TokenInfo } from "@/lib/tokens";
+import { useEffect, useState } from "react";
+
+// Load the token's daily USD series from the history's first UTC day onward; null `fromMs` means nothing is loaded yet
+export function usePriceSeries(token: TokenInfo, fromMs: number | null) {
+  // Tagged with the token it was fetched for, so a switch never shows the previous token's prices
+  const [loaded, setLoaded] = useState<{ tokenId: string; prices: PriceSeries | null; error: string } | null>(null);
+  // Refetch only when the first day changes, not on every re-render of the same history
+  const fromDay = fromMs === null ? null : dayKey(fromMs, "utc");
+
+  useEffect(() => {
+    if (fromDay === null) return;
+    let cancelled = false;
+    fetchPriceSeries(token, Date.parse(fromDay))
+      .then((series) => {
+        if (cancelled) return;
+        setLoaded({ tokenId: token.id, prices: series, error: "" });
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.warn("Price fetch failed:", err);
+        setLoaded({
+          tokenId: token.id,
+          prices: null,
+          error: err instanceof PriceError ? err.message : "Price data is unavailable right now",
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, fromDay]);
+
+  const current = loaded?.tokenId === token.id ? loaded : null;
+  return { prices: current?.prices ?? null, error: current?.error ?? "" };
+}
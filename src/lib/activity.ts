@@ -0,0 +1,137 @@
+import {
+  type TimeZoneMode,
+  addDays,
+  dayKey,
+  formatDate,
+  hourOf,
+  startOfDay,
+  startOfWeek,
+  weekdayOf,
+} from "@/lib/dates";
+import { toChartNumber } from "@/lib/format";
+import type { Transfer } from "@/lib/types";
+
+// A year of weeks, like GitHub's contribution calendar
+export const CALENDAR_WEEKS = 53;
+
+export const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+export interface ActivityDay {
+  key: string;
+  startMs: number;
+  count: number;
+  volume: number;
+}
+
+// A run of consecutive active days; both ends are day starts
+export interface Streak {
+  days: number;
+  startMs: number;
+  endMs: number;
+}
+
+export interface ActivitySummary {
+  timeZone: TimeZoneMode;
+  // Every day of the last CALENDAR_WEEKS weeks, oldest first, starting on a Monday
+  calendar: ActivityDay[];
+  // The run ending today, or yesterday when today has no activity yet
+  currentStreak: Streak | null;
+  // Longest run ever; the most recent one wins ties
+  longestStreak: Streak | null;
+  activeDays: number;
+  // Active days divided by the weeks since the first transfer
+  activeDaysPerWeek: number;
+  hourOfDay: { hour: string; count: number }[];
+  dayOfWeek: { day: string; count: number }[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Split sorted day starts into runs of consecutive calendar days
+const findRuns = (days: number[], tz: TimeZoneMode): Streak[] => {
+  const runs: Streak[] = [];
+  for (const day of days) {
+    const last = runs[runs.length - 1];
+    if (last && addDays(last.endMs, 1, tz) === day) {
+      last.days++;
+      last.endMs = day;
+    } else {
+      runs.push({ days: 1, startMs: day, endMs: day });
+    }
+  }
+  return runs;
+};
+
+// Daily counts, streaks and time-of-day habits for the whole history, in the given zone
+export const computeActivity = (
+  transfers: Transfer[],
+  decimals: number,
+  tz: TimeZoneMode,
+  now: number = Date.now(),
+): ActivitySummary => {
+  const perDay = new Map<string, { count: number; volume: bigint }>();
+  const dayStarts = new Set<number>();
+  const hours = new Array<number>(24).fill(0);
+  const weekdays = new Array<number>(7).fill(0);
+
+  for (const tx of transfers) {
+    const key = dayKey(tx.timeMs, tz);
+    const day = perDay.get(key) ?? { count: 0, volume: 0n };
+    day.count++;
+    day.volume += tx.value;
+    perDay.set(key, day);
+    dayStarts.add(startOfDay(tx.timeMs, tz));
+    hours[hourOf(tx.timeMs, tz)]++;
+    weekdays[weekdayOf(tx.timeMs, tz)]++;
+  }
+
+  const calendar: ActivityDay[] = [];
+  for (let day = addDays(startOfWeek(now, tz), -(CALENDAR_WEEKS - 1) * 7, tz); day <= now; day = addDays(day, 1, tz)) {
+    const key = dayKey(day, tz);
+    const totals = perDay.get(key);
+    calendar.push({
+      key,
+      startMs: day,
+      count: totals?.count ?? 0,
+      volume: totals ? toChartNumber(totals.volume, decimals) : 0,
+    });
+  }
+
+  const runs = findRuns(
+    [...dayStarts].sort((a, b) => a - b),
+    tz,
+  );
+  const today = startOfDay(now, tz);
+  const lastRun = runs[runs.length - 1];
+  const currentStreak =
+    lastRun && (lastRun.endMs === today || lastRun.endMs === addDays(today, -1, tz)) ? lastRun : null;
+  const longestStreak = runs.reduce<Streak | null>((best, run) => (!best || run.days >= best.days ? run : best), null);
+
+  // Calendar days from the first active day through today; rounding absorbs 23/25-hour DST days
+  const spanDays = runs.length > 0 ? Math.round((today - runs[0].startMs) / DAY_MS) + 1 : 0;
+
+  return {
+    timeZone: tz,
+    calendar,
+    currentStreak,
+    longestStreak,
+    activeDays: dayStarts.size,
+    activeDaysPerWeek: spanDays > 0 ? dayStarts.size / Math.max(1, spanDays / 7) : 0,
+    hourOfDay: hours.map((count, hour) => ({ hour: String(hour).padStart(2, "0"), count })),
+    dayOfWeek: weekdays.map((count, i) => ({ day: WEEKDAY_LABELS[i], count })),
+  };
+};
+
+// "Mar 3 – Mar 9, 2025"-style span for a streak
+export const describeStreak = (streak: Streak, tz: TimeZoneMode): string => {
+  const end = formatDate(streak.endMs, tz, { month: "short", day: "numeric", year: "numeric" });
+  if (streak.days === 1) return end;
+  // Only repeat the year when the streak crosses New Year
+  const sameYear = dayKey(streak.startMs, tz).slice(0, 4) === dayKey(streak.endMs, tz).slice(0, 4);
+  const start = formatDate(streak.startMs, tz, {
+    month: "short",
+    day: "numeric",
+    year: sameYear ? undefined : "numeric",
+  });
+  return `${start} – ${end}`;
+};
@@ -0,0 +1,58 @@
+import { classifyTransfer } from "@/lib/classify";
+import type { Transfer } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const WALLET = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const PEER = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+const UNISWAP_ROUTER = "0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad";
+const USDC = "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913";
+
+// A smart-account transfer out of the tracked wallet, sent inside an ERC-4337 bundle
+const bundled = (to: string, overrides: Partial<Transfer> = {}): Transfer => ({
+  hash: "0x01",
+  blockNumber: 27000000,
+  logIndex: 0,
+  timeMs: Date.UTC(2025, 2, 1),
+  from: WALLET,
+  to,
+  contractAddress: "0x06f71fb90f84b35302d132322a3c90e4477333b0",
+  value: 10n ** 18n,
+  decimals: 18,
+  symbol: "BRACKY",
+  functionName: "handleOps(tuple[] ops, address beneficiary)",
+  methodId: "0x1fad948c",
+  input: "0x1fad948c",
+  ...overrides,
+});
+
+describe("classifyTransfer", () => {
+  it("names a swap through a known router even when it came through handleOps", () => {
+    expect(classifyTransfer(bundled(UNISWAP_ROUTER), "out", true)).toBe("dex_swap");
+    expect(classifyTransfer({ ...bundled(WALLET), from: UNISWAP_ROUTER }, "in", true)).toBe("dex_swap");
+  });
+
+  it("doesn't count a bundled transfer to another known contract as a share trade", () => {
+    expect(classifyTransfer(bundled(USDC), "out", true)).toBe("other");
+  });
+
+  it("falls back to handleOps for unknown counterparties", () => {
+    expect(classifyTransfer(bundled(PEER), "out", true)).toBe("buy_shares");
+    expect(classifyTransfer({ ...bundled(WALLET), from: PEER }, "in", true)).toBe("payout");
+  });
+
+  it("reads no share trades for tokens outside Bracky's markets", () => {
+    expect(classifyTransfer(bundled(PEER), "out", false)).toBe("other");
+    expect(classifyTransfer(bundled(PEER, { functionName: "buyShares(uint256)" }), "out", false)).toBe("other");
+    expect(classifyTransfer(bundled(UNISWAP_ROUTER), "out", false)).toBe("dex_swap");
+  });
+
+  it("tags plain transfers between wallets", () => {
+    expect(
+      classifyTransfer(
+        bundled(PEER, { functionName: "transfer(address,uint256)", methodId: "0xa9059cbb" }),
+        "out",
+        true,
+      ),
+    ).toBe("peer_transfer");
+  });
+});
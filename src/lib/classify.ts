@@ -0,0 +1,96 @@
+import { ZERO_ADDRESS, lookupAddress } from "@/lib/known-addresses";
+import type { Transfer, TransferDirection } from "@/lib/types";
+
+export type TransferCategory =
+  | "buy_shares"
+  | "sell_shares"
+  | "payout"
+  | "airdrop"
+  | "dex_swap"
+  | "peer_transfer"
+  | "internal"
+  | "mint"
+  | "burn"
+  | "other";
+
+export const CATEGORY_LABELS: Record<TransferCategory, string> = {
+  buy_shares: "Buy Shares",
+  sell_shares: "Sell Shares",
+  payout: "Payout",
+  airdrop: "Airdrop",
+  dex_swap: "DEX Swap",
+  peer_transfer: "Peer Transfer",
+  internal: "Internal",
+  mint: "Mint",
+  burn: "Burn",
+  other: "Other",
+};
+
+export const CATEGORY_ORDER = Object.keys(CATEGORY_LABELS) as TransferCategory[];
+
+// Method selectors seen on $BRACKY transfers
+const SELECTORS = {
+  transfer: "0xa9059cbb",
+  handleOpsV06: "0x1fad948c",
+  handleOpsV07: "0x765e827f",
+  universalRouterExecute: "0x3593564c",
+  universalRouterExecuteNoDeadline: "0x24856bc3",
+  swapExactTokensForTokens: "0x38ed1739",
+  swapExactTokensForETH: "0x18cbafe5",
+  swapExactETHForTokens: "0x7ff36ab5",
+  exactInputSingle: "0x04e45aaf",
+  exactInput: "0xb858183f",
+};
+
+const DEX_SELECTORS = new Set<string>([
+  SELECTORS.universalRouterExecute,
+  SELECTORS.universalRouterExecuteNoDeadline,
+  SELECTORS.swapExactTokensForTokens,
+  SELECTORS.swapExactTokensForETH,
+  SELECTORS.swapExactETHForTokens,
+  SELECTORS.exactInputSingle,
+  SELECTORS.exactInput,
+]);
+
+const HANDLE_OPS_SELECTORS = new Set<string>([SELECTORS.handleOpsV06, SELECTORS.handleOpsV07]);
+
+const methodSelector = (tx: Transfer): string => (tx.methodId || tx.input.slice(0, 10)).toLowerCase();
+
+// Tag a transfer with what it most likely was, from the tracked wallet's point of view.
+// Rules run most-specific first: mint/burn, known Bracky contracts, method names, other known counterparties, then
+// selectors. Share trades and payouts are only recognised for tokens traded on Bracky's markets.
+export const classifyTransfer = (tx: Transfer, direction: TransferDirection, markets: boolean): TransferCategory => {
+  if (direction === "internal") return "internal";
+
+  const counterparty = direction === "in" ? tx.from : tx.to;
+  const known = lookupAddress(counterparty);
+  const fn = tx.functionName.toLowerCase();
+  const selector = methodSelector(tx);
+
+  if (tx.from === ZERO_ADDRESS) return /claim|airdrop|drop/.test(fn) ? "airdrop" : "mint";
+  if (tx.to === ZERO_ADDRESS) return "burn";
+
+  if (markets && known?.kind === "bracky-market") {
+    if (direction === "out") return "buy_shares";
+    return fn.includes("sell") ? "sell_shares" : "payout";
+  }
+
+  if (/claim|airdrop|disperse|multisend/.test(fn)) return direction === "in" ? "airdrop" : "other";
+  if (markets && fn.includes("sell")) return direction === "in" ? "sell_shares" : "other";
+  if (markets && fn.includes("buy")) return direction === "out" ? "buy_shares" : "other";
+
+  // A known counterparty says more than the smart-account bundle the transfer travelled in
+  if (known?.kind === "dex") return "dex_swap";
+  if (known) return "other";
+
+  // Bracky settles share trades through smart-account bundles (ERC-4337 handleOps)
+  if (markets && (fn.includes("handleops") || HANDLE_OPS_SELECTORS.has(selector))) {
+    return direction === "out" ? "buy_shares" : "payout";
+  }
+
+  if (DEX_SELECTORS.has(selector) || /swap/.test(fn)) return "dex_swap";
+
+  if (fn.startsWith("transfer(") || selector === SELECTORS.transfer) return "peer_transfer";
+
+  return "other";
+};
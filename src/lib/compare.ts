@@ -0,0 +1,85 @@
+import { normalizeTransfers, processTransactionData, shortAddress } from "@/lib/ledger";
+import type { RangeSpec } from "@/lib/range";
+import type { TokenInfo } from "@/lib/tokens";
+import type { LedgerResult, WalletData } from "@/lib/types";
+
+const SERIES_COLORS = ["#3b82f6", "#f97316", "#10b981", "#a855f7", "#ef4444", "#eab308", "#14b8a6", "#ec4899"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ComparedWallet {
+  address: string;
+  // recharts dataKey for this wallet's series; addresses make awkward keys
+  key: string;
+  label: string;
+  color: string;
+  ledger: LedgerResult;
+  walletAgeDays: number | null;
+}
+
+// One row per bucket with a numeric column per wallet key
+export type ComparisonPoint = { label: string } & Record<string, number | string>;
+
+export interface Comparison {
+  wallets: ComparedWallet[];
+  // Whether share stats apply; see TokenInfo.markets
+  markets: boolean;
+  balanceChart: ComparisonPoint[];
+  netFlowChart: ComparisonPoint[];
+}
+
+// Earliest transfer across every wallet, so "all time" spans the same buckets for each of them
+const earliestTransferMs = (wallets: WalletData[]): number | null => {
+  let earliest = Number.POSITIVE_INFINITY;
+  for (const wallet of wallets) {
+    for (const tx of normalizeTransfers(wallet.rows)) {
+      earliest = Math.min(earliest, tx.timeMs);
+    }
+  }
+  return Number.isFinite(earliest) ? earliest : null;
+};
+
+// Build side-by-side ledgers for several wallets over a shared range, with chart rows keyed per wallet
+export const compareWallets = (
+  token: TokenInfo,
+  wallets: WalletData[],
+  range: RangeSpec,
+  now: number = Date.now(),
+): Comparison => {
+  const firstTxMs = earliestTransferMs(wallets);
+  const markets = token.markets ?? false;
+
+  const compared = wallets.map((wallet, i) => {
+    const ledger = processTransactionData(wallet.rows, wallet.address, {
+      now,
+      range,
+      firstTxMs,
+      onChainBalance: wallet.onChainBalance,
+      markets,
+    });
+    const first = ledger.stats.firstTransferMs;
+    return {
+      address: wallet.address,
+      key: `w${i}`,
+      label: shortAddress(wallet.address),
+      color: SERIES_COLORS[i % SERIES_COLORS.length],
+      ledger,
+      walletAgeDays: first === null ? null : Math.floor((now - first) / DAY_MS),
+    };
+  });
+
+  // Every ledger was bucketed over the same resolved range, so bucket i lines up across wallets
+  const buckets = compared[0]?.ledger.balanceChart ?? [];
+  const balanceChart = buckets.map((point, i) => {
+    const row: ComparisonPoint = { label: point.label };
+    for (const wallet of compared) row[wallet.key] = wallet.ledger.balanceChart[i]?.balance ?? 0;
+    return row;
+  });
+  const netFlowChart = buckets.map((point, i) => {
+    const row: ComparisonPoint = { label: point.label };
+    for (const wallet of compared) row[wallet.key] = wallet.ledger.periodTx[i]?.net ?? 0;
+    return row;
+  });
+
+  return { wallets: compared, markets, balanceChart, netFlowChart };
+};
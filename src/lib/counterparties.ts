@@ -0,0 +1,109 @@
+import { counterpartyOf } from "@/lib/export";
+import { toChartNumber } from "@/lib/format";
+import { type KnownAddressKind, lookupAddress } from "@/lib/known-addresses";
+import { counterpartyName } from "@/lib/transfer-query";
+import type { ClassifiedTransfer } from "@/lib/types";
+
+// Everything a wallet exchanged with one other address. Amounts are exact base units.
+export interface CounterpartySummary {
+  address: string;
+  kind: KnownAddressKind | null;
+  received: bigint;
+  sent: bigint;
+  // received - sent, from the tracked wallet's side
+  net: bigint;
+  count: number;
+  firstMs: number;
+  lastMs: number;
+}
+
+export interface FlowNode {
+  name: string;
+  // Lowercase address, or null for the wallet itself and the "Other" rollups
+  address: string | null;
+}
+
+// Shaped for recharts' <Sankey>: inflow sources → the wallet → outflow destinations
+export interface FlowChartData {
+  nodes: FlowNode[];
+  links: { source: number; target: number; value: number }[];
+}
+
+// Rows either side of the wallet in the flow chart before the rest are rolled into "Other"
+export const FLOW_LIMIT = 6;
+
+// Group deposits and withdrawals by counterparty, biggest total volume first. Internal moves between the
+// portfolio's own wallets aren't counterparties and are left out.
+export const summarizeCounterparties = (transfers: ClassifiedTransfer[]): CounterpartySummary[] => {
+  const byAddress = new Map<string, CounterpartySummary>();
+
+  for (const tx of transfers) {
+    if (tx.direction !== "in" && tx.direction !== "out") continue;
+    const address = counterpartyOf(tx).toLowerCase();
+    const entry = byAddress.get(address) ?? {
+      address,
+      kind: lookupAddress(address)?.kind ?? null,
+      received: 0n,
+      sent: 0n,
+      net: 0n,
+      count: 0,
+      firstMs: tx.timeMs,
+      lastMs: tx.timeMs,
+    };
+    if (tx.direction === "in") entry.received += tx.value;
+    else entry.sent += tx.value;
+    entry.net = entry.received - entry.sent;
+    entry.count++;
+    entry.firstMs = Math.min(entry.firstMs, tx.timeMs);
+    entry.lastMs = Math.max(entry.lastMs, tx.timeMs);
+    byAddress.set(address, entry);
+  }
+
+  const volume = (c: CounterpartySummary) => c.received + c.sent;
+  return [...byAddress.values()].sort((a, b) => (volume(a) === volume(b) ? 0 : volume(a) > volume(b) ? -1 : 1));
+};
+
+// Top `limit` entries by `amount`, with everything else summed into one trailing "Other" row
+const topWithOther = (
+  counterparties: CounterpartySummary[],
+  amount: (c: CounterpartySummary) => bigint,
+  limit: number,
+): { address: string | null; value: bigint }[] => {
+  const sorted = counterparties
+    .filter((c) => amount(c) > 0n)
+    .sort((a, b) => (amount(a) === amount(b) ? 0 : amount(a) > amount(b) ? -1 : 1));
+  const top = sorted.slice(0, limit).map((c) => ({ address: c.address as string | null, value: amount(c) }));
+  const rest = sorted.slice(limit).reduce((sum, c) => sum + amount(c), 0n);
+  return rest > 0n ? [...top, { address: null, value: rest }] : top;
+};
+
+export const buildFlowChart = (
+  counterparties: CounterpartySummary[],
+  decimals: number,
+  names: Record<string, string> = {},
+  limit: number = FLOW_LIMIT,
+): FlowChartData => {
+  const inflows = topWithOther(counterparties, (c) => c.received, limit);
+  const outflows = topWithOther(counterparties, (c) => c.sent, limit);
+  const label = (address: string | null, other: string) =>
+    address === null ? other : counterpartyName(address, names);
+
+  const nodes: FlowNode[] = [
+    ...inflows.map((flow) => ({ name: label(flow.address, "Other sources"), address: flow.address })),
+    { name: "This wallet", address: null },
+    ...outflows.map((flow) => ({ name: label(flow.address, "Other destinations"), address: flow.address })),
+  ];
+  const wallet = inflows.length;
+
+  return {
+    nodes,
+    links: [
+      ...inflows.map((flow, i) => ({ source: i, target: wallet, value: toChartNumber(flow.value, decimals) })),
+      ...outflows.map((flow, i) => ({
+        source: wallet,
+        target: wallet + 1 + i,
+        value: toChartNumber(flow.value, decimals),
+      })),
+    ],
+  };
+};
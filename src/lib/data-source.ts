@@ -0,0 +1,37 @@
+import { type FetchHistoryOptions, type TokenHistory, fetchTokenHistory } from "@/lib/etherscan";
+import { fetchRpcHistory } from "@/lib/rpc-source";
+import type { TokenInfo } from "@/lib/tokens";
+
+export type DataSourceId = "etherscan" | "rpc" | "auto";
+
+// Where transfer histories come from. Every source returns tokentx-shaped rows so the ledger doesn't care.
+export interface DataSource {
+  id: DataSourceId;
+  label: string;
+  fetchHistory: (token: TokenInfo, address: string, options?: FetchHistoryOptions) => Promise<TokenHistory>;
+}
+
+const SOURCES: Record<DataSourceId, DataSource> = {
+  etherscan: { id: "etherscan", label: "Etherscan", fetchHistory: fetchTokenHistory },
+  rpc: { id: "rpc", label: "RPC", fetchHistory: fetchRpcHistory },
+  // Etherscan is much faster; logs keep the tracker alive when it is down or unconfigured
+  auto: {
+    id: "auto",
+    label: "Etherscan, falling back to RPC",
+    fetchHistory: async (token, address, options) => {
+      try {
+        return await fetchTokenHistory(token, address, options);
+      } catch (err) {
+        console.warn("Etherscan unavailable, reading transfer logs over RPC:", err);
+        return fetchRpcHistory(token, address, options);
+      }
+    },
+  },
+};
+
+const isDataSourceId = (value: string | undefined): value is DataSourceId => !!value && value in SOURCES;
+
+// Chosen at build time with VITE_DATA_SOURCE; Etherscan unless configured otherwise
+export const dataSource: DataSource = isDataSourceId(import.meta.env.VITE_DATA_SOURCE)
+  ? SOURCES[import.meta.env.VITE_DATA_SOURCE]
+  : SOURCES.etherscan;
@@ -0,0 +1,86 @@
+import { addDays, dayKey, startOfDay, startOfWeek } from "@/lib/dates";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Local wall-clock time in whatever zone the test runs under
+const local = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(year, month, day, hour, minute).getTime();
+
+describe("UTC calendar", () => {
+  it("rolls Dec 31 into Jan 1", () => {
+    const newYearsEve = Date.UTC(2024, 11, 31, 23, 30);
+    expect(dayKey(newYearsEve, "utc")).toBe("2024-12-31");
+    expect(addDays(newYearsEve, 1, "utc")).toBe(Date.UTC(2025, 0, 1));
+    expect(dayKey(addDays(newYearsEve, 1, "utc"), "utc")).toBe("2025-01-01");
+    expect(addDays(Date.UTC(2025, 0, 1, 6), -1, "utc")).toBe(Date.UTC(2024, 11, 31));
+  });
+
+  it("starts weeks on the Monday of the previous year", () => {
+    // 1 Jan 2025 is a Wednesday
+    expect(startOfWeek(Date.UTC(2025, 0, 1, 12), "utc")).toBe(Date.UTC(2024, 11, 30));
+    expect(startOfWeek(Date.UTC(2024, 11, 30), "utc")).toBe(Date.UTC(2024, 11, 30));
+  });
+
+  it("keys the instant by the UTC date, not the local one", () => {
+    // 03:00 UTC on New Year's Day is still New Year's Eve in New York
+    expect(dayKey(Date.UTC(2025, 0, 1, 3), "utc")).toBe("2025-01-01");
+    expect(dayKey(Date.UTC(2025, 0, 1, 3), "local")).toBe("2024-12-31");
+  });
+});
+
+// Each zone's 2025 DST changes: the day clocks go forward has 23 hours, the day they go back 25
+describe.each([
+  { zone: "America/New_York", springForward: [2025, 2, 9], fallBack: [2025, 10, 2] },
+  { zone: "Europe/Berlin", springForward: [2025, 2, 30], fallBack: [2025, 9, 26] },
+])("local calendar in $zone", ({ zone, springForward, fallBack }) => {
+  beforeAll(() => {
+    vi.stubEnv("TZ", zone);
+  });
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const [year, month, day] = springForward;
+  const [fallYear, fallMonth, fallDay] = fallBack;
+
+  it("gives the spring-forward day 23 hours", () => {
+    const midnight = local(year, month, day);
+    expect(addDays(midnight, 1, "local") - midnight).toBe(23 * HOUR_MS);
+    expect(new Date(addDays(midnight, 1, "local")).getHours()).toBe(0);
+  });
+
+  it("gives the fall-back day 25 hours", () => {
+    const midnight = local(fallYear, fallMonth, fallDay);
+    expect(addDays(midnight, 1, "local") - midnight).toBe(25 * HOUR_MS);
+    expect(new Date(addDays(midnight, 1, "local")).getHours()).toBe(0);
+  });
+
+  it("steps a whole week across a change to the same wall-clock midnight", () => {
+    const before = local(year, month, day - 3, 15);
+    expect(addDays(before, 7, "local")).toBe(local(year, month, day + 4));
+    expect(addDays(local(year, month, day + 4, 15), -7, "local")).toBe(local(year, month, day - 3));
+  });
+
+  it("keeps late-evening times on their own day either side of a change", () => {
+    expect(dayKey(local(year, month, day, 23, 30), "local")).toBe(dayKey(local(year, month, day), "local"));
+    expect(dayKey(local(fallYear, fallMonth, fallDay, 23, 30), "local")).toBe(
+      dayKey(local(fallYear, fallMonth, fallDay), "local"),
+    );
+    expect(startOfDay(local(fallYear, fallMonth, fallDay, 23, 30), "local")).toBe(local(fallYear, fallMonth, fallDay));
+  });
+
+  it("starts the week containing a change on its Monday at midnight", () => {
+    const monday = startOfWeek(local(year, month, day, 12), "local");
+    expect(new Date(monday).getDay()).toBe(1);
+    expect(new Date(monday).getHours()).toBe(0);
+    expect(addDays(monday, 7, "local")).toBe(startOfWeek(local(year, month, day + 7, 12), "local"));
+  });
+
+  it("rolls Dec 31 into Jan 1", () => {
+    const newYearsEve = local(2024, 11, 31, 23, 59);
+    expect(dayKey(newYearsEve, "local")).toBe("2024-12-31");
+    expect(dayKey(addDays(newYearsEve, 1, "local"), "local")).toBe("2025-01-01");
+    expect(startOfWeek(local(2025, 0, 1), "local")).toBe(local(2024, 11, 30));
+  });
+});
@@ -0,0 +1,99 @@
+// Calendar arithmetic in either the browser's time zone or UTC. Bracky's markets run on UTC, so "today" and day
+// boundaries can differ from the viewer's local calendar; everything that buckets by day goes through here.
+//
+// Day boundaries are always computed from calendar fields (year/month/day), never by adding 24h, so a 23- or
+// 25-hour local day around a DST change still starts at local midnight.
+
+export type TimeZoneMode = "local" | "utc";
+
+export const DEFAULT_TIME_ZONE: TimeZoneMode = "local";
+
+export const TIME_ZONE_LABELS: Record<TimeZoneMode, string> = { local: "Local", utc: "UTC" };
+
+interface CalendarFields {
+  year: number;
+  // Zero-based, as in Date
+  month: number;
+  day: number;
+  // 0 = Sunday
+  weekday: number;
+}
+
+const fieldsOf = (ms: number, tz: TimeZoneMode): CalendarFields => {
+  const d = new Date(ms);
+  return tz === "utc"
+    ? { year: d.getUTCFullYear(), month: d.getUTCMonth(), day: d.getUTCDate(), weekday: d.getUTCDay() }
+    : { year: d.getFullYear(), month: d.getMonth(), day: d.getDate(), weekday: d.getDay() };
+};
+
+// Midnight of a calendar date; out-of-range months and days roll over (day 0 is the last day of the previous month)
+const midnightOf = (year: number, month: number, day: number, tz: TimeZoneMode): number =>
+  tz === "utc" ? Date.UTC(year, month, day) : new Date(year, month, day).getTime();
+
+export const startOfDay = (ms: number, tz: TimeZoneMode): number => {
+  const { year, month, day } = fieldsOf(ms, tz);
+  return midnightOf(year, month, day, tz);
+};
+
+// Midnight `days` calendar days after the day containing `ms` (negative goes back)
+export const addDays = (ms: number, days: number, tz: TimeZoneMode): number => {
+  const { year, month, day } = fieldsOf(ms, tz);
+  return midnightOf(year, month, day + days, tz);
+};
+
+// Last millisecond of the day containing `ms`
+export const endOfDay = (ms: number, tz: TimeZoneMode): number => addDays(ms, 1, tz) - 1;
+
+// Weeks start on Monday
+export const startOfWeek = (ms: number, tz: TimeZoneMode): number => {
+  const { year, month, day, weekday } = fieldsOf(ms, tz);
+  return midnightOf(year, month, day - ((weekday + 6) % 7), tz);
+};
+
+export const startOfMonth = (ms: number, tz: TimeZoneMode): number => {
+  const { year, month } = fieldsOf(ms, tz);
+  return midnightOf(year, month, 1, tz);
+};
+
+// Midnight on the first of the month `months` after the one containing `ms`
+export const addMonths = (ms: number, months: number, tz: TimeZoneMode): number => {
+  const { year, month } = fieldsOf(ms, tz);
+  return midnightOf(year, month + months, 1, tz);
+};
+
+// Hour of day (0–23) in the chosen zone
+export const hourOf = (ms: number, tz: TimeZoneMode): number =>
+  tz === "utc" ? new Date(ms).getUTCHours() : new Date(ms).getHours();
+
+// Day of week in the chosen zone, 0 = Monday so weeks read Monday to Sunday like the week buckets
+export const weekdayOf = (ms: number, tz: TimeZoneMode): number => (fieldsOf(ms, tz).weekday + 6) % 7;
+
+// Year-aware, sortable day key (`YYYY-MM-DD`), also the format of <input type="date">
+export const dayKey = (ms: number, tz: TimeZoneMode): string => {
+  const { year, month, day } = fieldsOf(ms, tz);
+  return `${String(year).padStart(4, "0")}-${String(month + 1).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+};
+
+// Midnight of a `YYYY-MM-DD` date, or null when the value isn't a real calendar date
+export const parseDayKey = (value: string | undefined, tz: TimeZoneMode): number | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value ?? "");
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+  const ms = midnightOf(year, month, day, tz);
+  // Reject 2024-02-31 and friends instead of silently rolling them into the next month
+  return dayKey(ms, tz) === value ? ms : null;
+};
+
+// Locale-formatted date in the chosen zone
+export const formatDate = (ms: number, tz: TimeZoneMode, options: Intl.DateTimeFormatOptions = {}): string =>
+  new Date(ms).toLocaleDateString(undefined, tz === "utc" ? { ...options, timeZone: "UTC" } : options);
+
+// Locale-formatted date and time in the chosen zone, with the zone spelled out for UTC
+export const formatDateTime = (ms: number, tz: TimeZoneMode): string =>
+  tz === "utc" ? `${new Date(ms).toLocaleString(undefined, { timeZone: "UTC" })} UTC` : new Date(ms).toLocaleString();
+
+// Short `M/D` day label; the year is left out, so it is only for axes where neighbouring labels give context
+export const formatDayLabel = (ms: number, tz: TimeZoneMode): string => {
+  const { month, day } = fieldsOf(ms, tz);
+  return `${month + 1}/${day}`;
+};
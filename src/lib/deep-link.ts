@@ -0,0 +1,63 @@
+import { isAddress, parseAddressList } from "@/lib/portfolio";
+import { DEFAULT_RANGE, RANGE_PRESETS, type RangePreset, type RangeSpec } from "@/lib/range";
+import { DEFAULT_TOKEN, type TokenInfo, findToken } from "@/lib/tokens";
+
+export type ViewMode = "portfolio" | "compare";
+
+// Everything needed to reproduce a view from its URL
+export interface DeepLinkState {
+  addresses: string[];
+  token: TokenInfo;
+  range: RangeSpec;
+  view: ViewMode;
+  wallet: string | null;
+}
+
+const SHARE_URL = "/.netlify/functions/share";
+
+const isPreset = (value: string | null): value is RangePreset => RANGE_PRESETS.some((p) => p.value === value);
+
+// Read app state from a query string, dropping anything malformed instead of failing the whole link
+export const parseDeepLink = (search: string): DeepLinkState => {
+  const params = new URLSearchParams(search);
+  const addresses = parseAddressList(params.get("address") ?? "").filter(isAddress);
+  const preset = params.get("range");
+
+  const range: RangeSpec = isPreset(preset) ? { preset } : { ...DEFAULT_RANGE };
+  if (range.preset === "custom") {
+    range.customStart = params.get("from") ?? undefined;
+    range.customEnd = params.get("to") ?? undefined;
+  }
+  if (params.get("tz") === "utc") range.timeZone = "utc";
+
+  const wallet = params.get("wallet")?.toLowerCase();
+  return {
+    addresses,
+    // buildSearch leaves the default token out
+    token: findToken(params.get("token")) ?? DEFAULT_TOKEN,
+    range,
+    view: params.get("view") === "compare" ? "compare" : "portfolio",
+    wallet: addresses.find((a) => a.toLowerCase() === wallet) ?? null,
+  };
+};
+
+// Inverse of parseDeepLink; defaults are left out to keep links short
+export const buildSearch = ({ addresses, token, range, view, wallet }: DeepLinkState): string => {
+  const params = new URLSearchParams();
+  if (addresses.length > 0) params.set("address", addresses.join(","));
+  if (token.id !== DEFAULT_TOKEN.id) params.set("token", token.id);
+  if (range.preset !== DEFAULT_RANGE.preset) params.set("range", range.preset);
+  if (range.preset === "custom") {
+    if (range.customStart) params.set("from", range.customStart);
+    if (range.customEnd) params.set("to", range.customEnd);
+  }
+  if (range.timeZone === "utc") params.set("tz", "utc");
+  if (view !== "portfolio") params.set("view", view);
+  if (wallet) params.set("wallet", wallet);
+  const search = params.toString();
+  return search ? `?${search}` : "";
+};
+
+// Link to the share landing page, which adds embed tags for Farcaster and social previews before opening the app
+export const buildShareUrl = (state: DeepLinkState, origin: string = window.location.origin): string =>
+  `${origin}${SHARE_URL}${buildSearch(state)}`;
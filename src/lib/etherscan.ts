@@ -0,0 +1,211 @@
+import type { TokenInfo } from "@/lib/tokens";
+import type { EtherscanTokenTx } from "@/lib/types";
+
+const PROXY_URL = "/.netlify/functions/etherscan-proxy";
+
+// Etherscan rejects page * offset > 10,000, so history is read in block windows of at most WINDOW_LIMIT rows
+const PAGE_SIZE = 1000;
+const WINDOW_LIMIT = 10_000;
+// Hard stop so a runaway wallet can't hammer the proxy; hitting it marks the history as capped
+const MAX_REQUESTS = 100;
+const RATE_LIMIT_RETRIES = 3;
+const MAX_RETRY_WAIT_S = 5;
+
+export interface FetchProgress {
+  requests: number;
+  rows: number;
+  lastBlock: number;
+}
+
+export interface TokenHistory {
+  rows: EtherscanTokenTx[];
+  // True when the history could not be read to the end and stats may be incomplete
+  capped: boolean;
+  // Highest block the read covered, which can be past the last row; the next sync resumes from here
+  scannedTo: number;
+}
+
+export interface FetchHistoryOptions {
+  onProgress?: (progress: FetchProgress) => void;
+  // Resume from this block (inclusive) instead of the beginning; its rows are returned again
+  startBlock?: number;
+}
+
+// `code` values of the proxy's structured error bodies ({ code, error, param?, retryAfter? })
+export type ProxyErrorCode =
+  | "NOT_ALLOWED"
+  | "INVALID_PARAM"
+  | "RATE_LIMITED"
+  | "UPSTREAM_ERROR"
+  | "CONFIG_ERROR"
+  | "INTERNAL";
+
+interface ProxyErrorBody {
+  code?: ProxyErrorCode;
+  error?: string;
+  retryAfter?: number;
+}
+
+const FRIENDLY_MESSAGES: Record<ProxyErrorCode, string> = {
+  NOT_ALLOWED: "This lookup isn't supported by the tracker.",
+  INVALID_PARAM: "The tracker sent an invalid request",
+  RATE_LIMITED: "Too many lookups right now. Wait a minute and try again.",
+  UPSTREAM_ERROR: "Etherscan is unavailable right now. Try again shortly.",
+  CONFIG_ERROR: "The server isn't configured correctly. Check server logs and configuration.",
+  INTERNAL: "Something went wrong on the server. Try again shortly.",
+};
+
+// Proxy or API failure with a message that is safe to show to the user
+export class EtherscanError extends Error {
+  name = "EtherscanError";
+
+  constructor(
+    message: string,
+    readonly code?: ProxyErrorCode,
+  ) {
+    super(message);
+  }
+}
+
+const toEtherscanError = (status: number, body: ProxyErrorBody): EtherscanError => {
+  if (!body.code) return new EtherscanError(`Proxy error: ${body.error || `HTTP ${status}`}`);
+  // Parameter errors are bugs on our side; the detail helps a bug report
+  const message =
+    body.code === "INVALID_PARAM" ? `${FRIENDLY_MESSAGES.INVALID_PARAM}: ${body.error}` : FRIENDLY_MESSAGES[body.code];
+  return new EtherscanError(message, body.code);
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// The parts of a raw row or a normalized Transfer that identify it
+type TransferIdentity = Pick<EtherscanTokenTx, "hash" | "from" | "to"> & {
+  value: string | bigint;
+  logIndex?: string | number | null;
+};
+
+// What both data sources carry about a transfer; equal transfers between the same pair in one transaction share it
+export const transferFields = (tx: TransferIdentity): string =>
+  `${tx.hash}-${tx.from}-${tx.to}-${tx.value}`.toLowerCase();
+
+const hasLogIndex = (tx: TransferIdentity): boolean => (tx.logIndex ?? "") !== "";
+
+// A log is unique by its position. tokentx rows have no logIndex, so they fall back to the transfer's own fields.
+export const transferKey = (tx: TransferIdentity): string =>
+  hasLogIndex(tx) ? `${tx.hash}-${tx.logIndex}`.toLowerCase() : transferFields(tx);
+
+// Union of several reads that may overlap (re-read blocks, other wallets, another data source), each transfer once.
+// Rows are grouped by transfer fields per read: a read holds every copy of a transfer it saw, so the read with the most
+// copies wins and equal transfers in one transaction are kept apart. On a tie the later read is the fresher one.
+export const uniqueTransfers = (...reads: EtherscanTokenTx[][]): EtherscanTokenTx[] => {
+  const best = new Map<string, EtherscanTokenTx[]>();
+  for (const read of reads) {
+    const groups = new Map<string, Map<string, EtherscanTokenTx>>();
+    for (const [i, tx] of read.entries()) {
+      const fields = transferFields(tx);
+      const group = groups.get(fields) ?? new Map<string, EtherscanTokenTx>();
+      groups.set(fields, group);
+      // The same log listed twice within one read is still one transfer
+      group.set(hasLogIndex(tx) ? transferKey(tx) : `${fields}-${i}`, tx);
+    }
+    for (const [fields, group] of groups) {
+      if (group.size >= (best.get(fields)?.length ?? 0)) best.set(fields, [...group.values()]);
+    }
+  }
+  return [...best.values()].flat();
+};
+
+const fetchPage = async (
+  token: TokenInfo,
+  address: string,
+  startBlock: number,
+  page: number,
+): Promise<EtherscanTokenTx[]> => {
+  const params = new URLSearchParams({
+    module: "account",
+    action: "tokentx",
+    address,
+    contractaddress: token.contract,
+    chainid: String(token.chainId),
+    startblock: String(startBlock),
+    endblock: "99999999",
+    page: String(page),
+    offset: String(PAGE_SIZE),
+    sort: "asc",
+  });
+
+  for (let attempt = 0; ; attempt++) {
+    const resp = await fetch(`${PROXY_URL}?${params.toString()}`);
+
+    if (!resp.ok) {
+      const errBody: ProxyErrorBody = await resp.json().catch(() => ({}));
+      // Etherscan's per-second limit clears quickly; the proxy's per-minute limit is surfaced instead of waited out
+      const retryAfter = errBody.retryAfter ?? 1;
+      if (errBody.code === "RATE_LIMITED" && retryAfter <= MAX_RETRY_WAIT_S && attempt < RATE_LIMIT_RETRIES) {
+        await sleep(1000 * Math.max(retryAfter, attempt + 1));
+        continue;
+      }
+      throw toEtherscanError(resp.status, errBody);
+    }
+
+    // Upstream failures arrive as error responses above; status "0" here is Etherscan's empty result
+    const data = await resp.json();
+    return Array.isArray(data.result) ? data.result : [];
+  }
+};
+
+// Read an address's complete transfer history of one token, paging through Etherscan's result window
+export const fetchTokenHistory = async (
+  token: TokenInfo,
+  address: string,
+  options: FetchHistoryOptions = {},
+): Promise<TokenHistory> => {
+  // One list per block window; a new window re-reads the last block of the previous one
+  const windows: EtherscanTokenTx[][] = [[]];
+  let rowCount = 0;
+  let startBlock = options.startBlock ?? 0;
+  let page = 1;
+  let requests = 0;
+  let capped = false;
+  // Etherscan doesn't report its head block, so the highest row read is as far as the scan is known to reach
+  let scannedTo = startBlock;
+
+  while (true) {
+    if (requests >= MAX_REQUESTS) {
+      capped = true;
+      break;
+    }
+
+    const batch = await fetchPage(token, address, startBlock, page);
+    requests++;
+
+    windows[windows.length - 1].push(...batch);
+    rowCount += batch.length;
+
+    const lastBlock = batch.length > 0 ? Number(batch[batch.length - 1].blockNumber) : startBlock;
+    scannedTo = Math.max(scannedTo, lastBlock);
+    options.onProgress?.({ requests, rows: rowCount, lastBlock });
+
+    if (batch.length < PAGE_SIZE) break;
+
+    if (page * PAGE_SIZE < WINDOW_LIMIT) {
+      page++;
+      continue;
+    }
+
+    // Window exhausted: restart from the last block read. Its rows come back again and are merged above.
+    if (lastBlock <= startBlock) {
+      // A single block holds more transfers than one window can return
+      capped = true;
+      break;
+    }
+    startBlock = lastBlock;
+    page = 1;
+    windows.push([]);
+  }
+
+  const rows = uniqueTransfers(...windows).sort(
+    (a, b) => Number(a.blockNumber) - Number(b.blockNumber) || Number(a.logIndex ?? 0) - Number(b.logIndex ?? 0),
+  );
+
+  return { rows, capped, scannedTo };
+};
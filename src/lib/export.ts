@@ -0,0 +1,102 @@
+import { formatExactAmount } from "@/lib/format";
+import type { TokenInfo } from "@/lib/tokens";
+import type { ClassifiedTransfer, LedgerResult } from "@/lib/types";
+
+export interface TransferExportRow {
+  hash: string;
+  blockNumber: number;
+  logIndex: number | null;
+  timestamp: string;
+  direction: string;
+  amount: string;
+  amountRaw: string;
+  symbol: string;
+  counterparty: string;
+  category: string;
+}
+
+// The other side of a transfer from the tracked owner's point of view
+export const counterpartyOf = (tx: ClassifiedTransfer): string => (tx.direction === "in" ? tx.from : tx.to);
+
+export const toExportRows = (transfers: ClassifiedTransfer[]): TransferExportRow[] =>
+  [...transfers]
+    .sort((a, b) => a.timeMs - b.timeMs)
+    .map((tx) => ({
+      hash: tx.hash,
+      blockNumber: tx.blockNumber,
+      logIndex: tx.logIndex,
+      timestamp: new Date(tx.timeMs).toISOString(),
+      direction: tx.direction,
+      amount: formatExactAmount(tx.value, tx.decimals),
+      amountRaw: tx.value.toString(),
+      symbol: tx.symbol,
+      counterparty: counterpartyOf(tx),
+      category: tx.category,
+    }));
+
+const csvCell = (value: unknown): string => {
+  const s = value === null || value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+// Serialize objects that share the same keys as CSV with a header row
+export const toCsv = <T extends object>(rows: T[]): string => {
+  if (rows.length === 0) return "";
+  const headers = Object.keys(rows[0]) as (keyof T)[];
+  const lines = [headers.map(csvCell).join(",")];
+  for (const row of rows) {
+    lines.push(headers.map((header) => csvCell(row[header])).join(","));
+  }
+  return `${lines.join("\n")}\n`;
+};
+
+// JSON.stringify that writes bigints as decimal strings instead of throwing
+export const toJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, v) => (typeof v === "bigint" ? v.toString() : v), 2);
+
+// Computed stats, P&L and chart series for the selected range. Token amounts are exact base-unit strings.
+export const buildSummary = (ledger: LedgerResult, addresses: string[]) => {
+  const { stats, range, bucketSize, periodTx, balanceChart, pnl } = ledger;
+  return {
+    generatedAt: new Date().toISOString(),
+    addresses,
+    range: {
+      preset: range.preset,
+      start: new Date(range.startMs).toISOString(),
+      end: new Date(range.endMs).toISOString(),
+      bucketSize,
+    },
+    stats,
+    pnl: {
+      totalCost: pnl.totalCost,
+      totalProceeds: pnl.totalProceeds,
+      realized: pnl.realized,
+      openCost: pnl.openCost,
+      markets: pnl.markets,
+    },
+    series: periodTx.map((point, i) => ({
+      label: point.label,
+      received: point.received,
+      sent: point.sent,
+      net: point.net,
+      balance: balanceChart[i]?.balance ?? null,
+      cumulativePnl: pnl.cumulative[i]?.pnl ?? null,
+    })),
+  };
+};
+
+// Download name without extension, shared by every export: `<token id>-<subject>-<YYYY-MM-DD>`
+export const exportBaseName = (token: TokenInfo, subject: string): string =>
+  `${token.id}-${subject}-${new Date().toISOString().slice(0, 10)}`;
+
+// Hand a generated file to the browser as a download
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
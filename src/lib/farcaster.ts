@@ -0,0 +1,83 @@
+import { formatTokenAmount } from "@/lib/format";
+import { fetchVerifiedAddresses } from "@/lib/names";
+import { isAddress } from "@/lib/portfolio";
+import { describeRange } from "@/lib/range";
+import { type TokenInfo, tokenUnit } from "@/lib/tokens";
+import type { LedgerResult } from "@/lib/types";
+import { sdk } from "@farcaster/miniapp-sdk";
+
+// The Farcaster user who opened the app inside a client, with every Ethereum address we could attribute to them
+export interface FarcasterViewer {
+  fid: number;
+  username?: string;
+  displayName?: string;
+  pfpUrl?: string;
+  addresses: string[];
+}
+
+// Accounts exposed by the client's embedded wallet, without prompting the user
+const fetchConnectedAddresses = async (): Promise<string[]> => {
+  const provider = await sdk.wallet.getEthereumProvider();
+  if (!provider) return [];
+  const accounts = await provider.request({ method: "eth_accounts" });
+  return accounts.filter(isAddress);
+};
+
+const uniqueAddresses = (lists: string[][]): string[] => {
+  const seen = new Set<string>();
+  return lists.flat().filter((address) => {
+    const key = address.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Detect a Farcaster client, hide its splash screen and read who is viewing. Resolves null in a regular browser.
+export const initMiniApp = async (): Promise<FarcasterViewer | null> => {
+  if (!(await sdk.isInMiniApp())) return null;
+
+  await sdk.actions.ready();
+  const { user } = await sdk.context;
+
+  // Either source may be unavailable (no wallet, hub down); the viewer is still useful without them
+  const [connected, verified] = await Promise.all([
+    fetchConnectedAddresses().catch((err) => {
+      console.warn("Mini app wallet unavailable:", err);
+      return [];
+    }),
+    fetchVerifiedAddresses(user.fid).catch((err) => {
+      console.warn("Verified address lookup failed:", err);
+      return [];
+    }),
+  ]);
+
+  return {
+    fid: user.fid,
+    username: user.username,
+    displayName: user.displayName,
+    pfpUrl: user.pfpUrl,
+    addresses: uniqueAddresses([connected, verified]),
+  };
+};
+
+export const buildStatsCastText = (ledger: LedgerResult, token: TokenInfo): string => {
+  const { stats } = ledger;
+  const balance = formatTokenAmount(stats.currentBalance, stats.decimals, { compact: true });
+  const change = formatTokenAmount(stats.netChange, stats.decimals, { compact: true, signed: true });
+  const streak = stats.activeStreak > 0 ? `, ${stats.activeStreak}-day streak` : "";
+  return `My ${tokenUnit(token)}: ${balance} (${change} ${describeRange(ledger.range).toLowerCase()}${streak})`;
+};
+
+const WEB_COMPOSE_URL = "https://farcaster.xyz/~/compose";
+
+// Open the cast composer: natively inside a Farcaster client, otherwise the web composer in a new tab
+export const composeStatsCast = async (text: string, embedUrl: string, inMiniApp: boolean) => {
+  if (inMiniApp) {
+    await sdk.actions.composeCast({ text, embeds: [embedUrl] });
+    return;
+  }
+  const params = new URLSearchParams({ text });
+  params.append("embeds[]", embedUrl);
+  window.open(`${WEB_COMPOSE_URL}?${params.toString()}`, "_blank", "noopener");
+};
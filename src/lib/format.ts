@@ -0,0 +1,89 @@
+import { formatUnits } from "viem";
+
+const COMPACT_UNITS: [bigint, string][] = [
+  [1_000_000_000n, "B"],
+  [1_000_000n, "M"],
+  [1_000n, "K"],
+];
+
+export interface FormatAmountOptions {
+  // Abbreviate large values (1.2K, 3.4M) instead of printing every digit
+  compact?: boolean;
+  // Fraction digits for non-compact output
+  fractionDigits?: number;
+  // Prefix positive values with "+"
+  signed?: boolean;
+}
+
+// Round a fixed-point integer with `fromDecimals` decimals to one with `toDigits` decimals (half away from zero)
+const rescale = (abs: bigint, fromDecimals: number, toDigits: number): bigint => {
+  if (toDigits >= fromDecimals) return abs * 10n ** BigInt(toDigits - fromDecimals);
+  const divisor = 10n ** BigInt(fromDecimals - toDigits);
+  return (abs + divisor / 2n) / divisor;
+};
+
+const groupThousands = (digits: string) => digits.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+
+const toFixedString = (scaled: bigint, digits: number, grouped: boolean): string => {
+  const s = scaled.toString().padStart(digits + 1, "0");
+  const whole = s.slice(0, s.length - digits);
+  const intPart = grouped ? groupThousands(whole) : whole;
+  return digits === 0 ? intPart : `${intPart}.${s.slice(-digits)}`;
+};
+
+// Format an exact token amount (integer base units) for display
+export const formatTokenAmount = (value: bigint, decimals: number, options: FormatAmountOptions = {}): string => {
+  const { compact = false, fractionDigits = 2, signed = false } = options;
+  const negative = value < 0n;
+  const abs = negative ? -value : value;
+  const withSign = (scaled: bigint, body: string) => {
+    if (scaled === 0n) return body;
+    return `${negative ? "-" : signed ? "+" : ""}${body}`;
+  };
+
+  if (compact) {
+    const one = 10n ** BigInt(decimals);
+    for (const [unit, suffix] of COMPACT_UNITS) {
+      if (abs >= unit * one) {
+        const scaled = rescale(abs / unit, decimals, 1);
+        return withSign(scaled, `${toFixedString(scaled, 1, false)}${suffix}`);
+      }
+    }
+    const scaled = rescale(abs, decimals, 0);
+    return withSign(scaled, scaled.toString());
+  }
+
+  const scaled = rescale(abs, decimals, fractionDigits);
+  return withSign(scaled, toFixedString(scaled, fractionDigits, true));
+};
+
+// Every digit of an amount, without rounding (for tooltips and exports)
+export const formatExactAmount = (value: bigint, decimals: number): string => formatUnits(value, decimals);
+
+// Convert an exact amount to a float for charting; only use the result for plotting
+export const toChartNumber = (value: bigint, decimals: number): number => Number(formatUnits(value, decimals));
+
+// Compact label for already-converted chart values (axis ticks, tooltips)
+export const formatCompactNumber = (num: number): string => {
+  const abs = Math.abs(num);
+  for (const [unit, suffix] of COMPACT_UNITS) {
+    if (abs >= Number(unit)) return `${(num / Number(unit)).toFixed(1)}${suffix}`;
+  }
+  return Math.round(num).toString();
+};
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["day", 24 * 60 * 60 * 1000],
+  ["hour", 60 * 60 * 1000],
+  ["minute", 60 * 1000],
+];
+
+// "just now", "5 minutes ago", "yesterday"
+export const formatRelativeTime = (timeMs: number, now: number = Date.now()): string => {
+  const elapsed = now - timeMs;
+  const format = new Intl.RelativeTimeFormat(undefined, { numeric: "auto" });
+  for (const [unit, size] of RELATIVE_UNITS) {
+    if (elapsed >= size) return format.format(-Math.floor(elapsed / size), unit);
+  }
+  return "just now";
+};
@@ -0,0 +1,81 @@
+import type { EtherscanTokenTx } from "@/lib/types";
+
+const DB_NAME = "bracky-tracker";
+const DB_VERSION = 1;
+const STORE = "token-histories";
+
+// One wallet's synced history of one token as persisted in IndexedDB, keyed by token id and lowercase address
+export interface StoredHistory {
+  tokenId: string;
+  address: string;
+  rows: EtherscanTokenTx[];
+  // Highest block the last sync covered (the chain head for RPC reads, the newest row for Etherscan), not
+  // necessarily a block with a row. The next sync starts here and reads that block again.
+  lastBlock: number;
+  capped: boolean;
+  onChainBalance: bigint | null;
+  updatedAt: number;
+}
+
+let db: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  db ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: ["tokenId", "address"] });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      db = null;
+      reject(request.error);
+    };
+  });
+  return db;
+};
+
+// Wrap one request on the history store in a promise
+const run = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const store = (await openDb()).transaction(STORE, mode).objectStore(STORE);
+  return new Promise((resolve, reject) => {
+    const request = fn(store);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Storage is a cache: private browsing and blocked IndexedDB degrade to "nothing saved" rather than failing a load
+const quietly = async <T>(fallback: T, fn: () => Promise<T>): Promise<T> => {
+  try {
+    return await fn();
+  } catch (err) {
+    console.warn("History storage unavailable:", err);
+    return fallback;
+  }
+};
+
+export const loadStoredHistory = (tokenId: string, address: string): Promise<StoredHistory | null> =>
+  quietly(
+    null,
+    async () =>
+      (await run<StoredHistory | undefined>("readonly", (s) => s.get([tokenId, address.toLowerCase()]))) ?? null,
+  );
+
+export const saveStoredHistory = (history: StoredHistory): Promise<void> =>
+  quietly(undefined, async () => {
+    await run("readwrite", (s) => s.put({ ...history, address: history.address.toLowerCase() }));
+  });
+
+export const deleteStoredHistory = (tokenId: string, address: string): Promise<void> =>
+  quietly(undefined, async () => {
+    await run("readwrite", (s) => s.delete([tokenId, address.toLowerCase()]));
+  });
+
+// Every wallet saved for one token, most recently synced first
+export const listStoredHistories = (tokenId: string): Promise<StoredHistory[]> =>
+  quietly([], async () => {
+    // Arrays sort after strings in IndexedDB keys, so this range spans every address under the token
+    const range = IDBKeyRange.bound([tokenId], [tokenId, []]);
+    const all = await run<StoredHistory[]>("readonly", (s) => s.getAll(range));
+    return all.sort((a, b) => b.updatedAt - a.updatedAt);
+  });
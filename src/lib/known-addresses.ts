@@ -0,0 +1,45 @@
+import { TOKENS, tokenUnit } from "@/lib/tokens";
+
+export type KnownAddressKind = "bracky" | "bracky-market" | "token" | "entrypoint" | "dex" | "null";
+
+export interface KnownAddress {
+  name: string;
+  kind: KnownAddressKind;
+}
+
+export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// Addresses on Base the tracker can name. Keys are lowercase.
+const KNOWN: Record<string, KnownAddress> = {
+  [ZERO_ADDRESS]: { name: "Mint / Burn", kind: "null" },
+  "0x5ff137d4b0fdcd49dca30c7cf57e578a026d2789": { name: "ERC-4337 EntryPoint v0.6", kind: "entrypoint" },
+  "0x0000000071727de22e5e9d8baf0edac6f37da032": { name: "ERC-4337 EntryPoint v0.7", kind: "entrypoint" },
+  "0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad": { name: "Uniswap Universal Router", kind: "dex" },
+  "0x6ff5693b99212da76ad316178a184ab56d299b43": { name: "Uniswap V4 Universal Router", kind: "dex" },
+  "0x2626664c2603336e57b271c5c0b26f421741e481": { name: "Uniswap V3 SwapRouter02", kind: "dex" },
+  "0xcf77a3ba9a5ca399b7c97c74d54e5b1beb874e43": { name: "Aerodrome Router", kind: "dex" },
+};
+
+// Every token the tracker can follow
+for (const token of TOKENS) {
+  KNOWN[token.contract.toLowerCase()] = {
+    name: `${tokenUnit(token)} Token`,
+    kind: token.id === "bracky" ? "bracky" : "token",
+  };
+}
+
+// Bracky's market/escrow contracts move between deployments, so they are supplied at build time:
+// VITE_BRACKY_MARKET_ADDRESSES=0xabc...,0xdef...
+const marketAddresses = (import.meta.env.VITE_BRACKY_MARKET_ADDRESSES ?? "")
+  .split(/[\s,]+/)
+  .map((address) => address.trim().toLowerCase())
+  .filter((address) => /^0x[a-f0-9]{40}$/.test(address));
+
+for (const [i, address] of marketAddresses.entries()) {
+  KNOWN[address] = {
+    name: marketAddresses.length === 1 ? "Bracky Market" : `Bracky Market ${i + 1}`,
+    kind: "bracky-market",
+  };
+}
+
+export const lookupAddress = (address: string): KnownAddress | null => KNOWN[address.toLowerCase()] ?? null;
@@ -0,0 +1,170 @@
+import history from "@/lib/__fixtures__/wallet-history.json";
+import {
+  calculateActiveStreak,
+  generateBalanceChartFromCurrent,
+  groupTransactionsByBucket,
+  normalizeTransfers,
+  processTransactionData,
+} from "@/lib/ledger";
+import { buildBuckets, resolveRange } from "@/lib/range";
+import type { EtherscanTokenTx } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+// Wallet A trades with B; its last transfer goes to C, a second wallet of the same owner
+const A = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const C = "0xcccccccccccccccccccccccccccccccccccccccc";
+const rows: EtherscanTokenTx[] = history;
+const transfers = normalizeTransfers(rows);
+const token = (amount: number) => BigInt(amount) * 10n ** 18n;
+
+const NOW = Date.UTC(2025, 2, 6, 12);
+const utcWeek = resolveRange({ preset: "7d", timeZone: "utc" }, null, NOW);
+
+describe("normalizeTransfers", () => {
+  it("keeps zero decimals and defaults only malformed ones", () => {
+    const [whole, malformed] = normalizeTransfers([
+      { ...rows[0], tokenDecimal: "0" },
+      { ...rows[1], tokenDecimal: "x" },
+    ]);
+    expect(whole.decimals).toBe(0);
+    expect(malformed.decimals).toBe(18);
+  });
+});
+
+describe("calculateActiveStreak", () => {
+  it("counts back from today when today is active", () => {
+    expect(calculateActiveStreak(transfers, NOW, "utc")).toBe(2);
+  });
+
+  it("counts back from yesterday when today has no transfers yet", () => {
+    expect(calculateActiveStreak(transfers, Date.UTC(2025, 2, 7, 8), "utc")).toBe(2);
+  });
+
+  it("is zero once a whole day passes without transfers", () => {
+    expect(calculateActiveStreak(transfers, Date.UTC(2025, 2, 8, 8), "utc")).toBe(0);
+  });
+
+  it("counts local calendar days", () => {
+    // 4–6 March in New York: the 00:30 UTC transfer on the 6th is still the evening of the 5th
+    expect(calculateActiveStreak(transfers, NOW, "local")).toBe(2);
+    expect(calculateActiveStreak(transfers.slice(0, 5), NOW, "local")).toBe(1);
+  });
+
+  // One transfer at noon local time on each of the given days
+  const activeOn = (...days: [number, number, number][]) =>
+    days.map(([year, month, day]) => ({ ...transfers[0], timeMs: new Date(year, month, day, 12).getTime() }));
+
+  it("runs across the new year", () => {
+    const days = activeOn([2024, 11, 30], [2024, 11, 31], [2025, 0, 1]);
+    expect(calculateActiveStreak(days, new Date(2025, 0, 1, 18).getTime(), "local")).toBe(3);
+    expect(calculateActiveStreak(days, new Date(2025, 0, 2, 9).getTime(), "local")).toBe(3);
+  });
+
+  it("runs across the 23- and 25-hour days of a DST change", () => {
+    const spring = activeOn([2025, 2, 8], [2025, 2, 9], [2025, 2, 10]);
+    expect(calculateActiveStreak(spring, new Date(2025, 2, 10, 23, 30).getTime(), "local")).toBe(3);
+    const fall = activeOn([2025, 10, 1], [2025, 10, 2], [2025, 10, 3]);
+    expect(calculateActiveStreak(fall, new Date(2025, 10, 3, 0, 30).getTime(), "local")).toBe(3);
+  });
+});
+
+describe("groupTransactionsByBucket", () => {
+  it("sums received and sent per UTC day", () => {
+    const data = groupTransactionsByBucket(transfers, A, buildBuckets(utcWeek));
+    expect(data.map((d) => d.label)).toEqual(["2/28", "3/1", "3/2", "3/3", "3/4", "3/5", "3/6"]);
+    expect(data.map((d) => d.received)).toEqual([0, 100, 0, 50, 0, 0, 10]);
+    expect(data.map((d) => d.sent)).toEqual([0, 0, 30, 0, 0, 20, 5]);
+    expect(data[6].net).toBe(5);
+  });
+
+  it("buckets by local calendar day", () => {
+    const localWeek = resolveRange({ preset: "7d", timeZone: "local" }, null, NOW);
+    const data = groupTransactionsByBucket(transfers, A, buildBuckets(localWeek));
+    const march5 = data.find((d) => d.label === "3/5");
+    expect(march5).toMatchObject({ received: 10, sent: 20 });
+    expect(data.find((d) => d.label === "3/6")).toMatchObject({ received: 0, sent: 5 });
+  });
+
+  it("ignores moves between the owner's own wallets", () => {
+    const data = groupTransactionsByBucket(transfers, [A, C], buildBuckets(utcWeek));
+    expect(data[6]).toMatchObject({ received: 10, sent: 0 });
+  });
+});
+
+describe("generateBalanceChartFromCurrent", () => {
+  const buckets = buildBuckets(utcWeek);
+
+  it("reconstructs end-of-day balances backwards from the current balance", () => {
+    const chart = generateBalanceChartFromCurrent(transfers, A, token(105), buckets);
+    expect(chart.map((point) => point.balance)).toEqual([0, 100, 70, 120, 120, 100, 105]);
+    expect(chart[6].endMs).toBe(NOW);
+  });
+
+  it("anchors to an on-chain balance that differs from the transfer history", () => {
+    const chart = generateBalanceChartFromCurrent(transfers, A, token(200), buckets);
+    expect(chart.map((point) => point.balance)).toEqual([95, 195, 165, 215, 215, 195, 200]);
+  });
+
+  it("never goes below zero", () => {
+    const chart = generateBalanceChartFromCurrent(transfers, A, 0n, buckets);
+    expect(chart.every((point) => point.balance >= 0)).toBe(true);
+    expect(chart[0].balance).toBe(0);
+  });
+});
+
+describe("processTransactionData", () => {
+  it("derives totals and balances for one wallet", () => {
+    const { stats } = processTransactionData(rows, A, { now: NOW, range: { preset: "7d", timeZone: "utc" } });
+    expect(stats).toMatchObject({
+      totalReceived: token(160),
+      totalSent: token(55),
+      netBalance: token(105),
+      currentBalance: token(105),
+      receiveCount: 3,
+      sendCount: 3,
+      internalCount: 0,
+      totalTransactions: 6,
+      netChange: token(105),
+      balanceAtRangeStart: 0n,
+      balanceAtRangeEnd: token(105),
+      activeStreak: 2,
+      balanceDiscrepancy: 0n,
+      firstTransferMs: Date.UTC(2025, 2, 1, 10),
+    });
+  });
+
+  it("treats transfers between tracked wallets as internal", () => {
+    const { stats } = processTransactionData(rows, [A, C], { now: NOW, range: { preset: "7d", timeZone: "utc" } });
+    expect(stats.internalCount).toBe(1);
+    expect(stats.currentBalance).toBe(token(110));
+  });
+
+  it("separates transfers after a custom range's end from the balance at that end", () => {
+    const { stats } = processTransactionData(rows, A, {
+      now: NOW,
+      range: { preset: "custom", customStart: "2025-03-03", customEnd: "2025-03-05", timeZone: "utc" },
+    });
+    expect(stats.netChange).toBe(token(30));
+    expect(stats.balanceAtRangeEnd).toBe(token(100));
+    expect(stats.balanceAtRangeStart).toBe(token(70));
+  });
+
+  it("reports how far the on-chain balance is from the derived one", () => {
+    const { stats, balanceChart } = processTransactionData(rows, A, {
+      now: NOW,
+      range: { preset: "7d", timeZone: "utc" },
+      onChainBalance: token(100),
+    });
+    expect(stats.currentBalance).toBe(token(100));
+    expect(stats.balanceDiscrepancy).toBe(-token(5));
+    expect(balanceChart[balanceChart.length - 1].balance).toBe(100);
+  });
+
+  it("handles an empty history", () => {
+    const { stats, balanceChart } = processTransactionData([], A, { now: NOW });
+    expect(stats.totalTransactions).toBe(0);
+    expect(stats.currentBalance).toBe(0n);
+    expect(stats.walletCreatedDate).toBe("Unknown");
+    expect(balanceChart.every((point) => point.balance === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,306 @@
+import { computeActivity } from "@/lib/activity";
+import { CATEGORY_ORDER, type TransferCategory, classifyTransfer } from "@/lib/classify";
+import { DEFAULT_TIME_ZONE, type TimeZoneMode, addDays, dayKey, formatDate } from "@/lib/dates";
+import { toChartNumber } from "@/lib/format";
+import { computePnl } from "@/lib/pnl";
+import {
+  type Bucket,
+  DEFAULT_RANGE,
+  type RangeSpec,
+  buildBuckets,
+  findBucketIndex,
+  pickBucketSize,
+  resolveRange,
+} from "@/lib/range";
+import type {
+  BalanceChartData,
+  CategoryTotal,
+  ClassifiedTransfer,
+  EtherscanTokenTx,
+  LedgerResult,
+  Owner,
+  TransactionData,
+  Transfer,
+  TransferDirection,
+} from "@/lib/types";
+
+// Utility: convert Etherscan timestamp or unix string to ms
+export const toMs = (ts: string | number | null | undefined): number => {
+  if (ts === undefined || ts === null) return Number.NaN;
+  const s = String(ts).trim();
+  const n = Number(s);
+  if (Number.isNaN(n)) return Number.NaN;
+  return s.length <= 10 ? n * 1000 : n;
+};
+
+// Parse ERC-20 token value as exact base units (value is an integer string scaled by tokenDecimal)
+export const parseValue = (tx: Pick<EtherscanTokenTx, "value">): bigint => {
+  const raw = (tx.value ?? "").trim();
+  return /^\d+$/.test(raw) ? BigInt(raw) : 0n;
+};
+
+// Missing or malformed decimals fall back to the ERC-20 default; "0" is a real value for indivisible tokens
+const parseDecimals = (tx: Pick<EtherscanTokenTx, "tokenDecimal">): number => {
+  const raw = (tx.tokenDecimal ?? "").trim();
+  return /^\d+$/.test(raw) ? Number(raw) : 18;
+};
+
+// Heuristic: treat items as transfer-action for charts/grouping (fallback for tokentx)
+export const isTransferAction = (tx: EtherscanTokenTx): boolean => {
+  const action = (tx.action || "").toLowerCase();
+  if (action) return action === "transfer";
+  return !!tx.tokenSymbol && !!tx.value && tx.value !== "0";
+};
+
+// Basic defensive filter: only token transfer-like entries (no NFT id, has decimals/symbol/value)
+const isFungibleTransferRow = (tx: EtherscanTokenTx): boolean =>
+  !!tx.tokenDecimal && !!tx.tokenSymbol && !tx.tokenID && !!tx.value && tx.value !== "0";
+
+// Convert raw tokentx rows into typed transfers, dropping rows that are not ERC-20 transfer actions
+export const normalizeTransfers = (rows: EtherscanTokenTx[]): Transfer[] =>
+  rows
+    .filter((tx) => isFungibleTransferRow(tx) && isTransferAction(tx))
+    .map((tx) => ({
+      hash: tx.hash,
+      blockNumber: Number.parseInt(tx.blockNumber, 10) || 0,
+      logIndex: tx.logIndex ? Number.parseInt(tx.logIndex, 10) : null,
+      timeMs: toMs(tx.timeStamp),
+      from: (tx.from || "").toLowerCase(),
+      to: (tx.to || "").toLowerCase(),
+      contractAddress: (tx.contractAddress || "").toLowerCase(),
+      value: parseValue(tx),
+      decimals: parseDecimals(tx),
+      symbol: tx.tokenSymbol,
+      functionName: (tx.functionName || "").toString(),
+      methodId: (tx.methodId || "").toLowerCase(),
+      input: tx.input || "",
+    }))
+    .filter((t) => !Number.isNaN(t.timeMs));
+
+const ownerAddresses = (owner: Owner): string[] =>
+  (Array.isArray(owner) ? owner : [owner]).map((address) => (address || "").toLowerCase());
+
+// Direction of a transfer relative to the tracked wallet(s); moves between two owned wallets are "internal"
+export const getDirection = (tx: Transfer, owner: Owner): TransferDirection => {
+  const owned = ownerAddresses(owner);
+  const toOwned = owned.includes(tx.to);
+  const fromOwned = owned.includes(tx.from);
+  if (toOwned && fromOwned) return "internal";
+  if (toOwned) return "in";
+  if (fromOwned) return "out";
+  return "none";
+};
+
+// Signed balance change a transfer applies to the tracked wallet(s)
+const signedValue = (tx: Transfer, owner: Owner): bigint => {
+  const direction = getDirection(tx, owner);
+  if (direction === "in") return tx.value;
+  if (direction === "out") return -tx.value;
+  return 0n;
+};
+
+// All transfers of one token share its decimals; fall back to the ERC-20 default
+const decimalsOf = (transfers: Transfer[]): number => transfers[0]?.decimals ?? 18;
+
+// groupTransactionsByBucket classifies by address (received/sent) into the range's calendar buckets
+export const groupTransactionsByBucket = (
+  transfers: Transfer[],
+  owner: Owner,
+  buckets: Bucket[],
+): TransactionData[] => {
+  const decimals = decimalsOf(transfers);
+  const totals = buckets.map(() => ({ received: 0n, sent: 0n }));
+
+  for (const tx of transfers) {
+    const index = findBucketIndex(buckets, tx.timeMs);
+    if (index === -1) continue;
+
+    const direction = getDirection(tx, owner);
+    if (direction === "in") {
+      totals[index].received += tx.value;
+    } else if (direction === "out") {
+      totals[index].sent += tx.value;
+    }
+  }
+
+  return buckets.map((bucket, i) => {
+    const { received, sent } = totals[i];
+    return {
+      label: bucket.label,
+      received: toChartNumber(received, decimals),
+      sent: toChartNumber(sent, decimals),
+      net: toChartNumber(received - sent, decimals),
+    };
+  });
+};
+
+// Build a balance series (balance at the end of each bucket) anchored to currentBalance
+export const generateBalanceChartFromCurrent = (
+  transfers: Transfer[],
+  owner: Owner,
+  currentBalance: bigint,
+  buckets: Bucket[],
+): BalanceChartData[] => {
+  const decimals = decimalsOf(transfers);
+  const enriched = transfers
+    .map((tx) => ({ timeMs: tx.timeMs, delta: signedValue(tx, owner) }))
+    .sort((a, b) => a.timeMs - b.timeMs);
+
+  const deltas = enriched.map((e) => e.delta);
+  const times = enriched.map((e) => e.timeMs);
+
+  const suffixSum: bigint[] = new Array(deltas.length);
+  let s = 0n;
+  for (let i = deltas.length - 1; i >= 0; i--) {
+    s += deltas[i];
+    suffixSum[i] = s;
+  }
+
+  const sumDeltasAfter = (t: number) => {
+    let lo = 0;
+    let hi = times.length - 1;
+    let ans = times.length;
+    while (lo <= hi) {
+      const mid = Math.floor((lo + hi) / 2);
+      if (times[mid] > t) {
+        ans = mid;
+        hi = mid - 1;
+      } else {
+        lo = mid + 1;
+      }
+    }
+    if (ans >= times.length) return 0n;
+    return suffixSum[ans] ?? 0n;
+  };
+
+  return buckets.map((bucket) => {
+    let balanceAtEnd = currentBalance - sumDeltasAfter(bucket.endMs);
+    if (balanceAtEnd < 0n) balanceAtEnd = 0n;
+    return { label: bucket.label, balance: toChartNumber(balanceAtEnd, decimals), endMs: bucket.endMs };
+  });
+};
+
+// Count consecutive active days ending today (or yesterday, if today has no activity yet) in the given zone
+export const calculateActiveStreak = (
+  transfers: Transfer[],
+  now: number = Date.now(),
+  tz: TimeZoneMode = DEFAULT_TIME_ZONE,
+): number => {
+  const activeDays = new Set(transfers.map((tx) => dayKey(tx.timeMs, tz)));
+
+  let day = activeDays.has(dayKey(now, tz)) ? now : addDays(now, -1, tz);
+  let streak = 0;
+  while (activeDays.has(dayKey(day, tz))) {
+    streak++;
+    day = addDays(day, -1, tz);
+  }
+  return streak;
+};
+
+export const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const ownerLabel = (owner: Owner): string => {
+  if (!Array.isArray(owner)) return shortAddress(owner);
+  return owner.length === 1 ? shortAddress(owner[0]) : `${owner.length} wallets`;
+};
+
+export interface ProcessOptions {
+  now?: number;
+  range?: RangeSpec;
+  // Start of "all time"; defaults to this history's first transfer. Set it to line several wallets up on one axis.
+  firstTxMs?: number | null;
+  // Balance read from the token contract; when present it anchors the balance series instead of the derived one
+  onChainBalance?: bigint | null;
+  // The token trades on Bracky's markets (TokenInfo.markets); otherwise no transfer is read as a share trade
+  markets?: boolean;
+}
+
+// processTransactionData derives stats/chart from raw tokentx rows for one address or a portfolio of addresses
+export const processTransactionData = (
+  rows: EtherscanTokenTx[],
+  owner: Owner,
+  options: ProcessOptions = {},
+): LedgerResult => {
+  const { now = Date.now(), onChainBalance = null, range: rangeSpec = DEFAULT_RANGE, markets = false } = options;
+  const transfers: ClassifiedTransfer[] = normalizeTransfers(rows).map((tx) => {
+    const direction = getDirection(tx, owner);
+    return { ...tx, direction, category: classifyTransfer(tx, direction, markets) };
+  });
+  const firstTimeMs = transfers.reduce((min, tx) => Math.min(min, tx.timeMs), Number.POSITIVE_INFINITY);
+  const range = resolveRange(rangeSpec, options.firstTxMs ?? (Number.isFinite(firstTimeMs) ? firstTimeMs : null), now);
+  const bucketSize = pickBucketSize(range);
+  const buckets = buildBuckets(range, bucketSize);
+  const inRange = (tx: Transfer) => tx.timeMs >= range.startMs && tx.timeMs <= range.endMs;
+
+  let receivedInRange = 0n;
+  let sentInRange = 0n;
+  // Transfers after a custom range's end still separate currentBalance from the balance at that end
+  let netAfterRange = 0n;
+  let totalReceived = 0n;
+  let totalSent = 0n;
+  let receiveCount = 0;
+  let sendCount = 0;
+  let internalCount = 0;
+  const categoryTotals = Object.fromEntries(
+    CATEGORY_ORDER.map((category) => [category, { count: 0, volume: 0n }]),
+  ) as Record<TransferCategory, CategoryTotal>;
+
+  for (const tx of transfers) {
+    categoryTotals[tx.category].count++;
+    categoryTotals[tx.category].volume += tx.value;
+
+    const { direction } = tx;
+    if (direction === "internal") {
+      internalCount++;
+    } else if (direction === "in") {
+      totalReceived += tx.value;
+      receiveCount++;
+      if (inRange(tx)) receivedInRange += tx.value;
+      if (tx.timeMs > range.endMs) netAfterRange += tx.value;
+    } else if (direction === "out") {
+      totalSent += tx.value;
+      sendCount++;
+      if (inRange(tx)) sentInRange += tx.value;
+      if (tx.timeMs > range.endMs) netAfterRange -= tx.value;
+    }
+  }
+
+  const walletCreatedDate = Number.isFinite(firstTimeMs) ? formatDate(firstTimeMs, range.timeZone) : "Unknown";
+  const derivedBalance = totalReceived - totalSent;
+  const currentBalance = onChainBalance ?? derivedBalance;
+  const netChange = receivedInRange - sentInRange;
+  const balanceAtRangeEnd = currentBalance - netAfterRange;
+
+  return {
+    transfers,
+    range,
+    bucketSize,
+    pnl: computePnl(transfers, buckets, decimalsOf(transfers)),
+    activity: computeActivity(transfers, decimalsOf(transfers), range.timeZone, now),
+    periodTx: groupTransactionsByBucket(transfers, owner, buckets),
+    balanceChart: generateBalanceChartFromCurrent(transfers, owner, currentBalance, buckets),
+    stats: {
+      address: ownerLabel(owner),
+      decimals: decimalsOf(transfers),
+      totalReceived,
+      totalSent,
+      netBalance: derivedBalance,
+      totalTransactions: transfers.length,
+      receiveCount,
+      sendCount,
+      internalCount,
+      currentBalance,
+      onChainBalance,
+      balanceDiscrepancy: onChainBalance === null ? 0n : onChainBalance - derivedBalance,
+      balanceAtRangeStart: balanceAtRangeEnd - netChange,
+      balanceAtRangeEnd,
+      netChange,
+      buySharesTotal: categoryTotals.buy_shares.volume,
+      buySharesCount: categoryTotals.buy_shares.count,
+      categoryTotals,
+      activeStreak: calculateActiveStreak(transfers, now, range.timeZone),
+      walletCreatedDate,
+      firstTransferMs: Number.isFinite(firstTimeMs) ? firstTimeMs : null,
+    },
+  };
+};
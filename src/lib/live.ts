@@ -0,0 +1,88 @@
+import { transferFields, uniqueTransfers } from "@/lib/etherscan";
+import { formatTokenAmount } from "@/lib/format";
+import { getDirection, normalizeTransfers, shortAddress } from "@/lib/ledger";
+import type { EtherscanTokenTx, Transfer, WalletData } from "@/lib/types";
+import { parseUnits } from "viem";
+
+// How often live mode re-syncs; each tick is an incremental fetch from the last saved block
+export const LIVE_POLL_MS = 30_000;
+
+const THRESHOLD_KEY = "bracky-tracker:notify-threshold";
+// More new transfers than this in one tick are announced as a single summary instead of one pop-up each
+const NOTIFY_BATCH_LIMIT = 3;
+
+// Rows present in `next` that none of the `previous` wallets had, each listed once. Copies are counted per transfer
+// rather than matched by key, so a sync that switched data sources doesn't report old transfers again.
+export const findNewRows = (previous: WalletData[], next: WalletData[]): EtherscanTokenTx[] => {
+  const known = new Map<string, number>();
+  for (const tx of uniqueTransfers(...previous.map((wallet) => wallet.rows))) {
+    known.set(transferFields(tx), (known.get(transferFields(tx)) ?? 0) + 1);
+  }
+  const fresh: EtherscanTokenTx[] = [];
+  for (const tx of uniqueTransfers(...next.map((wallet) => wallet.rows))) {
+    const left = known.get(transferFields(tx)) ?? 0;
+    if (left > 0) {
+      known.set(transferFields(tx), left - 1);
+    } else {
+      fresh.push(tx);
+    }
+  }
+  return fresh;
+};
+
+// Threshold in whole tokens, as typed by the user; blank means "notify for every transfer"
+export const loadNotifyThreshold = (): string => localStorage.getItem(THRESHOLD_KEY) ?? "";
+
+export const saveNotifyThreshold = (value: string) => localStorage.setItem(THRESHOLD_KEY, value);
+
+const parseThreshold = (value: string, decimals: number): bigint => {
+  try {
+    return value.trim() ? parseUnits(value.trim(), decimals) : 0n;
+  } catch {
+    return 0n;
+  }
+};
+
+export const canNotify = (): boolean => "Notification" in window && Notification.permission === "granted";
+
+// Ask once, when the user turns live mode on; a denied prompt just means no pop-ups
+export const requestNotifyPermission = async (): Promise<void> => {
+  if ("Notification" in window && Notification.permission === "default") {
+    await Notification.requestPermission();
+  }
+};
+
+const describeAmount = (tx: Transfer): string => `${formatTokenAmount(tx.value, tx.decimals)} $${tx.symbol}`;
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+// Raise a browser notification for each new deposit or withdrawal at or above the threshold, or one summary when a
+// tick brings more than a few
+export const notifyTransfers = (rows: EtherscanTokenTx[], owner: string[], threshold: string) => {
+  if (!canNotify()) return;
+
+  const moves = normalizeTransfers(rows)
+    .map((tx) => ({ tx, direction: getDirection(tx, owner) }))
+    .filter(({ tx, direction }) => {
+      if (direction !== "in" && direction !== "out") return false;
+      return tx.value >= parseThreshold(threshold, tx.decimals);
+    });
+
+  if (moves.length > NOTIFY_BATCH_LIMIT) {
+    const deposits = moves.filter(({ direction }) => direction === "in").length;
+    const withdrawals = moves.length - deposits;
+    new Notification(`${moves.length} new $${moves[0].tx.symbol} transfers`, {
+      body: `${plural(deposits, "deposit")}, ${plural(withdrawals, "withdrawal")}`,
+      tag: "live-summary",
+    });
+    return;
+  }
+
+  for (const { tx, direction } of moves) {
+    const wallet = direction === "in" ? tx.to : tx.from;
+    new Notification(`${direction === "in" ? "Deposit" : "Withdrawal"}: ${describeAmount(tx)}`, {
+      body: `${shortAddress(wallet)} ${direction === "in" ? "received" : "sent"} ${describeAmount(tx)}`,
+      tag: tx.hash,
+    });
+  }
+};
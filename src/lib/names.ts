@@ -0,0 +1,103 @@
+import { isAddress } from "@/lib/portfolio";
+
+const RESOLVER_URL = "/.netlify/functions/resolve-name";
+// Matches the resolver function's per-request cap
+const REVERSE_BATCH_SIZE = 50;
+
+export type NameKind = "ens" | "basename" | "farcaster";
+
+export interface ResolvedName {
+  name: string;
+  kind: NameKind;
+  addresses: string[];
+}
+
+export class NameResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NameResolutionError";
+  }
+}
+
+// Farcaster usernames are `@` + up to 16 of [a-z0-9-] (optionally an ENS fname); ENS names are dotted labels
+export const isNameInput = (value: string): boolean =>
+  /^@[a-z0-9][a-z0-9-]{0,15}(\.eth)?$/i.test(value) || /^[^\s.@/]+(\.[^\s.@/]+)*\.eth$/i.test(value);
+
+const emptyResultMessage = (resolved: ResolvedName): string =>
+  resolved.kind === "farcaster"
+    ? `${resolved.name} has no verified Ethereum addresses`
+    : `${resolved.name} has no address set`;
+
+// Forward-resolve one name to the addresses it controls
+export const resolveName = async (name: string): Promise<ResolvedName> => {
+  const resp = await fetch(`${RESOLVER_URL}?name=${encodeURIComponent(name)}`);
+  const data = await resp.json().catch(() => null);
+  if (!resp.ok || !data) {
+    throw new NameResolutionError(`Could not resolve ${name}${data?.error ? `: ${data.error}` : ""}`);
+  }
+
+  const resolved = data as ResolvedName;
+  if (resolved.addresses.length === 0) throw new NameResolutionError(emptyResultMessage(resolved));
+  return resolved;
+};
+
+// Ethereum addresses a Farcaster user has verified on their profile, looked up by the resolver's hub client
+export const fetchVerifiedAddresses = async (fid: number): Promise<string[]> => {
+  const resp = await fetch(`${RESOLVER_URL}?fid=${fid}`);
+  const data: { addresses?: string[]; error?: string } | null = await resp.json().catch(() => null);
+  if (!resp.ok || !data)
+    throw new NameResolutionError(`Could not look up fid ${fid}${data?.error ? `: ${data.error}` : ""}`);
+  return (data.addresses ?? []).filter(isAddress);
+};
+
+// Turn a mix of addresses and names into unique addresses, remembering which name each address came from
+export const resolveAddressInputs = async (
+  entries: string[],
+): Promise<{ addresses: string[]; names: Record<string, string> }> => {
+  const names: Record<string, string> = {};
+  const resolved = await Promise.all(
+    entries.map(async (entry) => {
+      if (isAddress(entry)) return [entry];
+      const result = await resolveName(entry);
+      for (const address of result.addresses) names[address.toLowerCase()] = result.name;
+      return result.addresses;
+    }),
+  );
+
+  const seen = new Set<string>();
+  const addresses = resolved.flat().filter((address) => {
+    const key = address.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { addresses, names };
+};
+
+// Reverse lookups don't change often; remember misses too so they aren't re-requested every render
+const reverseCache = new Map<string, string | null>();
+
+// Primary Basename/ENS names for addresses, keyed by lowercase address. Addresses without a name are omitted.
+export const lookupNames = async (addresses: string[]): Promise<Record<string, string>> => {
+  const pending = [...new Set(addresses.map((a) => a.toLowerCase()))].filter((a) => !reverseCache.has(a));
+
+  for (let i = 0; i < pending.length; i += REVERSE_BATCH_SIZE) {
+    const batch = pending.slice(i, i + REVERSE_BATCH_SIZE);
+    try {
+      const resp = await fetch(`${RESOLVER_URL}?addresses=${batch.join(",")}`);
+      if (!resp.ok) throw new Error(`Resolver HTTP ${resp.status}`);
+      const data: { names?: Record<string, string> } = await resp.json();
+      for (const address of batch) reverseCache.set(address, data.names?.[address] ?? null);
+    } catch (err) {
+      // Names are cosmetic; leave this batch uncached so it's retried next time
+      console.warn("Reverse name lookup failed:", err);
+    }
+  }
+
+  const names: Record<string, string> = {};
+  for (const address of addresses) {
+    const name = reverseCache.get(address.toLowerCase());
+    if (name) names[address.toLowerCase()] = name;
+  }
+  return names;
+};
@@ -0,0 +1,41 @@
+import { type ChainInfo, type TokenInfo, chainOf } from "@/lib/tokens";
+import { http, type Address, type Chain, type PublicClient, createPublicClient, erc20Abi } from "viem";
+import { base, mainnet } from "viem/chains";
+
+// viem chain definitions for the registry's chain ids. A chain added to token-registry.json needs an entry here.
+const VIEM_CHAINS: Record<number, Chain> = { [base.id]: base, [mainnet.id]: mainnet };
+
+// VITE_BASE_RPC_URL / VITE_ETHEREUM_RPC_URL override viem's default public endpoints
+const RPC_URLS: Record<number, string | undefined> = {
+  [base.id]: import.meta.env.VITE_BASE_RPC_URL,
+  [mainnet.id]: import.meta.env.VITE_ETHEREUM_RPC_URL,
+};
+
+const clients = new Map<number, PublicClient>();
+
+// Batching folds the many block/transaction lookups of RPC history reads into a few HTTP requests
+export const clientFor = (chain: ChainInfo): PublicClient => {
+  let client = clients.get(chain.id);
+  if (!client) {
+    const viemChain = VIEM_CHAINS[chain.id];
+    if (!viemChain) throw new Error(`No viem chain configured for ${chain.name} (${chain.id})`);
+    client = createPublicClient({
+      chain: viemChain,
+      transport: http(RPC_URLS[chain.id] || undefined, { batch: true }),
+    }) as PublicClient;
+    clients.set(chain.id, client);
+  }
+  return client;
+};
+
+// Read the authoritative token balance straight from the token contract
+export const fetchOnChainBalance = (token: TokenInfo, address: Address): Promise<bigint> =>
+  clientFor(chainOf(token)).readContract({
+    address: token.contract,
+    abi: erc20Abi,
+    functionName: "balanceOf",
+    args: [address],
+  });
+
+// Block explorer page for a transaction on the token's chain
+export const explorerTxUrl = (token: TokenInfo, hash: string): string => `${chainOf(token).explorerUrl}/tx/${hash}`;
@@ -0,0 +1,108 @@
+import type { TransferCategory } from "@/lib/classify";
+import { toChartNumber } from "@/lib/format";
+import { lookupAddress } from "@/lib/known-addresses";
+import type { Bucket } from "@/lib/range";
+import type { ClassifiedTransfer } from "@/lib/types";
+
+export interface MarketPnl {
+  // Counterparty the shares were bought from / paid out by
+  market: string;
+  name: string | null;
+  cost: bigint;
+  proceeds: bigint;
+  realized: bigint;
+  // Purchases made after the market's last payout or sale; not yet realized
+  openCost: bigint;
+  buys: number;
+  returns: number;
+  lastActivityMs: number;
+}
+
+export interface PnlPoint {
+  label: string;
+  pnl: number;
+}
+
+export interface PnlResult {
+  markets: MarketPnl[];
+  totalCost: bigint;
+  totalProceeds: bigint;
+  realized: bigint;
+  openCost: bigint;
+  cumulative: PnlPoint[];
+}
+
+const COST_CATEGORIES = new Set<TransferCategory>(["buy_shares"]);
+const RETURN_CATEGORIES = new Set<TransferCategory>(["payout", "sell_shares"]);
+
+// Pair share purchases with later payouts/sales per market.
+// Transfers carry no share counts, so each payout or sale realizes all cost accumulated in that market since the
+// previous one: realized += proceeds - pendingCost. Cost left pending after the last return stays open.
+export const computePnl = (transfers: ClassifiedTransfer[], buckets: Bucket[], decimals: number): PnlResult => {
+  const markets = new Map<string, MarketPnl & { pending: bigint }>();
+  const realizations: { timeMs: number; amount: bigint }[] = [];
+
+  const sorted = transfers
+    .filter((tx) => COST_CATEGORIES.has(tx.category) || RETURN_CATEGORIES.has(tx.category))
+    .sort((a, b) => a.timeMs - b.timeMs);
+
+  for (const tx of sorted) {
+    const isCost = COST_CATEGORIES.has(tx.category);
+    const counterparty = isCost ? tx.to : tx.from;
+
+    let market = markets.get(counterparty);
+    if (!market) {
+      market = {
+        market: counterparty,
+        name: lookupAddress(counterparty)?.name ?? null,
+        cost: 0n,
+        proceeds: 0n,
+        realized: 0n,
+        openCost: 0n,
+        buys: 0,
+        returns: 0,
+        lastActivityMs: tx.timeMs,
+        pending: 0n,
+      };
+      markets.set(counterparty, market);
+    }
+    market.lastActivityMs = tx.timeMs;
+
+    if (isCost) {
+      market.cost += tx.value;
+      market.pending += tx.value;
+      market.buys++;
+    } else {
+      const gain = tx.value - market.pending;
+      market.proceeds += tx.value;
+      market.realized += gain;
+      market.pending = 0n;
+      market.returns++;
+      realizations.push({ timeMs: tx.timeMs, amount: gain });
+    }
+  }
+
+  const results: MarketPnl[] = Array.from(markets.values())
+    .map(({ pending, ...market }) => ({ ...market, openCost: pending }))
+    .sort((a, b) => b.lastActivityMs - a.lastActivityMs);
+
+  // Lifetime realized P&L as of each bucket's end, so the line starts at the right level for short ranges
+  let cursor = 0;
+  let running = 0n;
+  const cumulative = buckets.map((bucket) => {
+    while (cursor < realizations.length && realizations[cursor].timeMs <= bucket.endMs) {
+      running += realizations[cursor].amount;
+      cursor++;
+    }
+    return { label: bucket.label, pnl: toChartNumber(running, decimals) };
+  });
+
+  return {
+    markets: results,
+    totalCost: results.reduce((sum, m) => sum + m.cost, 0n),
+    totalProceeds: results.reduce((sum, m) => sum + m.proceeds, 0n),
+    realized: results.reduce((sum, m) => sum + m.realized, 0n),
+    openCost: results.reduce((sum, m) => sum + m.openCost, 0n),
+    cumulative,
+  };
+};
@@ -0,0 +1,82 @@
+import history from "@/lib/__fixtures__/wallet-history.json";
+import { transferKey } from "@/lib/etherscan";
+import { findNewRows } from "@/lib/live";
+import { mergeWalletRows } from "@/lib/portfolio";
+import type { EtherscanTokenTx, WalletData } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const rows: EtherscanTokenTx[] = history;
+
+// The same transfers as read over RPC: checksummed addresses and a logIndex, which tokentx rows don't carry
+const fromRpc = (tx: EtherscanTokenTx, logIndex: number): EtherscanTokenTx => ({
+  ...tx,
+  from: tx.from.toUpperCase().replace("0X", "0x"),
+  to: tx.to.toUpperCase().replace("0X", "0x"),
+  logIndex: String(logIndex),
+});
+
+const wallet = (address: string, walletRows: EtherscanTokenTx[]): WalletData => ({
+  address,
+  rows: walletRows,
+  capped: false,
+  onChainBalance: null,
+  updatedAt: 0,
+  offline: false,
+});
+
+describe("transferKey", () => {
+  it("uses the log position when the row has one", () => {
+    expect(transferKey(fromRpc(rows[0], 7))).toBe(`${rows[0].hash}-7`);
+    expect(transferKey(rows[0])).toBe(`${rows[0].hash}-${rows[0].from}-${rows[0].to}-${rows[0].value}`);
+  });
+});
+
+describe("mergeWalletRows", () => {
+  it("keeps a transfer once when Etherscan and RPC both returned it", () => {
+    const etherscan = wallet(rows[0].to, rows.slice(0, 4));
+    const rpc = wallet(
+      rows[0].to,
+      rows.slice(2).map((tx, i) => fromRpc(tx, i)),
+    );
+    const merged = mergeWalletRows([etherscan, rpc]);
+    expect(merged).toHaveLength(rows.length);
+    expect(merged.map((tx) => tx.hash)).toEqual(rows.map((tx) => tx.hash));
+  });
+
+  it("keeps distinct transfers of the same transaction apart", () => {
+    const split = { ...rows[0], value: "1" };
+    expect(mergeWalletRows([wallet(rows[0].to, [rows[0], split])])).toHaveLength(2);
+  });
+
+  it("keeps two equal transfers in one transaction", () => {
+    const twice = [rows[0], { ...rows[0] }];
+    const owner = rows[0].to;
+    expect(mergeWalletRows([wallet(owner, twice)])).toHaveLength(2);
+    // Re-reading the block, or reading it from the other wallet's side, doesn't add a third
+    expect(mergeWalletRows([wallet(owner, twice), wallet(rows[0].from, twice)])).toHaveLength(2);
+    // RPC rows tell them apart by logIndex and replace the tokentx copies
+    const logs = [fromRpc(rows[0], 3), fromRpc(rows[0], 4)];
+    const merged = mergeWalletRows([wallet(owner, [rows[0]]), wallet(owner, logs)]);
+    expect(merged.map((tx) => tx.logIndex)).toEqual(["3", "4"]);
+    expect(mergeWalletRows([wallet(owner, [...logs, logs[0]])])).toHaveLength(2);
+  });
+});
+
+describe("findNewRows", () => {
+  it("reports the second of two equal transfers in one transaction", () => {
+    const before = [wallet(rows[0].to, [rows[0]])];
+    const after = [wallet(rows[0].to, [rows[0], { ...rows[0] }])];
+    expect(findNewRows(before, after)).toHaveLength(1);
+  });
+
+  it("doesn't report a transfer as new when a sync switched data sources", () => {
+    const before = [wallet(rows[0].to, rows.slice(0, 5))];
+    const after = [
+      wallet(
+        rows[0].to,
+        rows.map((tx, i) => fromRpc(tx, i)),
+      ),
+    ];
+    expect(findNewRows(before, after).map((tx) => tx.hash)).toEqual([rows[5].hash]);
+  });
+});
@@ -0,0 +1,94 @@
+import { dataSource } from "@/lib/data-source";
+import { type FetchProgress, type TokenHistory, uniqueTransfers } from "@/lib/etherscan";
+import { type StoredHistory, loadStoredHistory, saveStoredHistory } from "@/lib/history-store";
+import { fetchOnChainBalance } from "@/lib/onchain";
+import type { TokenInfo } from "@/lib/tokens";
+import type { EtherscanTokenTx, WalletData } from "@/lib/types";
+import type { Address } from "viem";
+
+// Split free-form input (commas, spaces, newlines) into unique addresses, keeping the order they were typed
+export const parseAddressList = (input: string): string[] => {
+  const seen = new Set<string>();
+  const addresses: string[] = [];
+  for (const part of input.split(/[\s,;]+/)) {
+    const address = part.trim();
+    if (!address || seen.has(address.toLowerCase())) continue;
+    seen.add(address.toLowerCase());
+    addresses.push(address);
+  }
+  return addresses;
+};
+
+export const isAddress = (value: string): boolean => /^0x[a-fA-F0-9]{40}$/.test(value);
+
+interface LoadWalletOptions {
+  onProgress?: (progress: FetchProgress) => void;
+  // Ignore the saved history and read everything from the first block again
+  fullResync?: boolean;
+}
+
+const mergeRows = (...lists: EtherscanTokenTx[][]): EtherscanTokenTx[] =>
+  uniqueTransfers(...lists).sort((a, b) => Number(a.blockNumber) - Number(b.blockNumber));
+
+const fromStored = (address: string, stored: StoredHistory, offline: boolean): WalletData => ({
+  address,
+  rows: stored.rows,
+  capped: stored.capped,
+  onChainBalance: stored.onChainBalance,
+  updatedAt: stored.updatedAt,
+  offline,
+});
+
+// Fetch one wallet's transfer history of `token` and its on-chain balance side by side. A saved history is extended from its
+// last block rather than re-read, and is shown as-is when the data source can't be reached.
+export const loadWallet = async (
+  token: TokenInfo,
+  address: string,
+  options: LoadWalletOptions = {},
+): Promise<WalletData> => {
+  const stored = options.fullResync ? null : await loadStoredHistory(token.id, address);
+
+  let history: TokenHistory;
+  let onChainBalance: bigint | null;
+  try {
+    // The RPC read is a cross-check only; if it fails the tracker falls back to the derived balance
+    [history, onChainBalance] = await Promise.all([
+      dataSource.fetchHistory(token, address, { onProgress: options.onProgress, startBlock: stored?.lastBlock }),
+      fetchOnChainBalance(token, address as Address).catch((err) => {
+        console.warn("balanceOf read failed:", err);
+        return null;
+      }),
+    ]);
+  } catch (err) {
+    if (!stored) throw err;
+    console.warn("Sync failed, showing saved history:", err);
+    return fromStored(address, stored, true);
+  }
+
+  const rows = stored ? mergeRows(stored.rows, history.rows) : history.rows;
+  const saved: StoredHistory = {
+    tokenId: token.id,
+    address,
+    rows,
+    lastBlock: Math.max(history.scannedTo, stored?.lastBlock ?? 0),
+    capped: history.capped,
+    onChainBalance: onChainBalance ?? stored?.onChainBalance ?? null,
+    updatedAt: Date.now(),
+  };
+  await saveStoredHistory(saved);
+  return { ...fromStored(address, saved, false), onChainBalance };
+};
+
+// Union of every wallet's rows. A move between two tracked wallets shows up in both histories, so keep it once.
+export const mergeWalletRows = (wallets: WalletData[]): EtherscanTokenTx[] =>
+  mergeRows(...wallets.map((wallet) => wallet.rows));
+
+// Portfolio on-chain balance is only meaningful when every wallet's balanceOf read succeeded
+export const combinedOnChainBalance = (wallets: WalletData[]): bigint | null => {
+  let total = 0n;
+  for (const wallet of wallets) {
+    if (wallet.onChainBalance === null) return null;
+    total += wallet.onChainBalance;
+  }
+  return total;
+};
@@ -0,0 +1,66 @@
+import { type PriceSeries, computeCostBasis, historicalUsd, priceAt } from "@/lib/prices";
+import type { ClassifiedTransfer, TransferDirection } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+// Quotes for 10 and 12 March only; the 11th has none
+const series: PriceSeries = {
+  source: "fixture",
+  days: ["2025-03-10", "2025-03-12"],
+  usd: new Map([
+    ["2025-03-10", 2],
+    ["2025-03-12", 3],
+  ]),
+  stale: false,
+};
+
+const transfer = (direction: TransferDirection, tokens: number, day: number): ClassifiedTransfer => ({
+  hash: `0x${day}`,
+  blockNumber: day,
+  logIndex: 0,
+  timeMs: Date.UTC(2025, 2, day, 12),
+  from: "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa",
+  to: "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb",
+  contractAddress: "0x06f71fb90f84b35302d132322a3c90e4477333b0",
+  value: BigInt(tokens) * 10n ** 18n,
+  decimals: 18,
+  symbol: "BRACKY",
+  functionName: "",
+  methodId: "0xa9059cbb",
+  input: "0xa9059cbb",
+  direction,
+  category: "peer_transfer",
+});
+
+describe("priceAt", () => {
+  it("uses the day's quote or the last earlier one", () => {
+    expect(priceAt(series, Date.UTC(2025, 2, 10, 23))).toBe(2);
+    expect(priceAt(series, Date.UTC(2025, 2, 11, 12))).toBe(2);
+    expect(priceAt(series, Date.UTC(2025, 5, 1))).toBe(3);
+  });
+
+  it("has no price before the series starts", () => {
+    expect(priceAt(series, Date.UTC(2025, 2, 9, 23, 59))).toBeNull();
+    expect(priceAt({ ...series, days: [], usd: new Map() }, Date.UTC(2025, 2, 10))).toBeNull();
+  });
+});
+
+describe("computeCostBasis", () => {
+  it("averages the cost of what is still held", () => {
+    const basis = computeCostBasis(
+      [transfer("in", 100, 10), transfer("in", 100, 12), transfer("out", 100, 12)],
+      series,
+      100n * 10n ** 18n,
+      18,
+    );
+    expect(basis).toEqual({ costBasis: 250, marketValue: 300, unrealized: 50, realized: 50, unpriced: 0 });
+  });
+
+  it("leaves out and counts transfers from before the first price", () => {
+    const transfers = [transfer("in", 1000, 1), transfer("in", 100, 10), transfer("out", 50, 12)];
+    const basis = computeCostBasis(transfers, series, 1050n * 10n ** 18n, 18);
+    expect(basis.unpriced).toBe(1);
+    expect(basis.costBasis).toBe(100);
+    expect(basis.realized).toBe(50);
+    expect(historicalUsd(transfers.slice(0, 2), series)).toBe(200);
+  });
+});
@@ -0,0 +1,140 @@
+import { dayKey } from "@/lib/dates";
+import { toChartNumber } from "@/lib/format";
+import type { TokenInfo } from "@/lib/tokens";
+import type { ClassifiedTransfer } from "@/lib/types";
+
+const PRICES_URL = "/.netlify/functions/prices";
+
+// Daily token/USD closes keyed by UTC `YYYY-MM-DD`, as served by the prices function
+export interface PriceSeries {
+  source: string;
+  // Sorted ascending so lookups can fall back to the closest earlier day
+  days: string[];
+  usd: Map<string, number>;
+  stale: boolean;
+}
+
+export interface CostBasis {
+  // USD paid for the tokens still held, at the price on the day each was received (average cost)
+  costBasis: number;
+  // Market value of the current holdings
+  marketValue: number;
+  unrealized: number;
+  // Proceeds of tokens sent away minus their share of the cost basis
+  realized: number;
+  // Transfers from before the price series starts; they are left out, so the figures above are incomplete
+  unpriced: number;
+}
+
+export class PriceError extends Error {
+  name = "PriceError";
+}
+
+export const fetchPriceSeries = async (token: TokenInfo, fromMs: number | null): Promise<PriceSeries> => {
+  const params = new URLSearchParams({ token: token.id });
+  if (fromMs !== null) params.set("from", dayKey(fromMs, "utc"));
+  const resp = await fetch(`${PRICES_URL}?${params.toString()}`);
+  const data = await resp.json().catch(() => null);
+  if (!resp.ok || !Array.isArray(data?.prices)) {
+    throw new PriceError(data?.error ?? "Price data is unavailable right now");
+  }
+
+  const points = (data.prices as { date: string; usd: number }[]).sort((a, b) => a.date.localeCompare(b.date));
+  return {
+    source: data.source,
+    days: points.map((point) => point.date),
+    usd: new Map(points.map((point) => [point.date, point.usd])),
+    stale: data.stale === true,
+  };
+};
+
+// Price on the UTC day containing `ms`; days without a quote use the last earlier one. Null before the series starts,
+// since the first known price says nothing about what the token traded at earlier.
+export const priceAt = (series: PriceSeries, ms: number): number | null => {
+  if (series.days.length === 0) return null;
+  const key = dayKey(ms, "utc");
+  if (key < series.days[0]) return null;
+  const exact = series.usd.get(key);
+  if (exact !== undefined) return exact;
+
+  let lo = 0;
+  let hi = series.days.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (series.days[mid] <= key) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return series.usd.get(series.days[found]) ?? null;
+};
+
+export const latestPrice = (series: PriceSeries): number | null =>
+  series.days.length > 0 ? (series.usd.get(series.days[series.days.length - 1]) ?? null) : null;
+
+export const toUsd = (value: bigint, decimals: number, price: number): number => toChartNumber(value, decimals) * price;
+
+// USD value of transfers at the price on the day each happened; transfers without a price count as nothing
+export const historicalUsd = (transfers: ClassifiedTransfer[], series: PriceSeries): number =>
+  transfers.reduce((sum, tx) => sum + toUsd(tx.value, tx.decimals, priceAt(series, tx.timeMs) ?? 0), 0);
+
+// Average-cost basis: every deposit is an acquisition at that day's price, every withdrawal disposes of tokens at
+// the running average cost. Internal moves between the portfolio's wallets don't change the holding.
+export const computeCostBasis = (
+  transfers: ClassifiedTransfer[],
+  series: PriceSeries,
+  currentBalance: bigint,
+  decimals: number,
+): CostBasis => {
+  let held = 0;
+  let cost = 0;
+  let realized = 0;
+  let unpriced = 0;
+
+  for (const tx of [...transfers].sort((a, b) => a.timeMs - b.timeMs)) {
+    if (tx.direction !== "in" && tx.direction !== "out") continue;
+    const price = priceAt(series, tx.timeMs);
+    if (price === null) {
+      unpriced++;
+      continue;
+    }
+    const amount = toChartNumber(tx.value, tx.decimals);
+    const usd = amount * price;
+    if (tx.direction === "in") {
+      held += amount;
+      cost += usd;
+    } else {
+      // The history can start mid-way (capped or pre-existing balance); never dispose of more than is known
+      const disposed = Math.min(amount, held);
+      const costOfDisposed = held > 0 ? (cost * disposed) / held : 0;
+      realized += usd - costOfDisposed;
+      cost -= costOfDisposed;
+      held -= disposed;
+    }
+  }
+
+  const marketValue = toUsd(currentBalance, decimals, latestPrice(series) ?? 0);
+  return { costBasis: cost, marketValue, unrealized: marketValue - cost, realized, unpriced };
+};
+
+const USD = new Intl.NumberFormat(undefined, { style: "currency", currency: "USD", maximumFractionDigits: 2 });
+const USD_COMPACT = new Intl.NumberFormat(undefined, {
+  style: "currency",
+  currency: "USD",
+  notation: "compact",
+  maximumFractionDigits: 1,
+});
+
+// Dollar amounts under $10k print in full; larger ones abbreviate like token amounts
+export const formatUsd = (value: number, options: { signed?: boolean } = {}): string => {
+  const body = Math.abs(value) >= 10_000 ? USD_COMPACT.format(Math.abs(value)) : USD.format(Math.abs(value));
+  if (value < 0) return `-${body}`;
+  return options.signed && value > 0 ? `+${body}` : body;
+};
+
+// Token prices are fractions of a cent; show enough significant digits to be useful
+export const formatPrice = (price: number): string =>
+  `$${price.toLocaleString(undefined, { maximumSignificantDigits: 4 })}`;
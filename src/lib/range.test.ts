@@ -0,0 +1,60 @@
+import { buildBuckets, resolveRange } from "@/lib/range";
+import { describe, expect, it } from "vitest";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const local = (year: number, month: number, day: number, hour = 0) => new Date(year, month, day, hour).getTime();
+
+// Consecutive buckets must tile the range with no gap or overlap
+const expectContiguous = (buckets: { startMs: number; endMs: number }[]) => {
+  for (let i = 1; i < buckets.length; i++) {
+    expect(buckets[i].startMs).toBe(buckets[i - 1].endMs + 1);
+  }
+};
+
+describe("buildBuckets", () => {
+  it("crosses the new year day by day", () => {
+    const range = resolveRange({ preset: "7d", timeZone: "local" }, null, local(2025, 0, 2, 12));
+    const buckets = buildBuckets(range);
+    expect(buckets.map((bucket) => bucket.label)).toEqual(["12/27", "12/28", "12/29", "12/30", "12/31", "1/1", "1/2"]);
+    expect(buckets[5].startMs).toBe(local(2025, 0, 1));
+    expectContiguous(buckets);
+  });
+
+  it("starts weekly buckets on Mondays across the new year", () => {
+    const range = resolveRange(
+      { preset: "custom", customStart: "2024-12-01", customEnd: "2025-01-31", timeZone: "utc" },
+      null,
+      Date.UTC(2025, 5, 1),
+    );
+    const buckets = buildBuckets(range, "week");
+    expect(buckets.map((bucket) => bucket.label)).toContain("12/30");
+    expect(buckets.slice(1).every((bucket) => new Date(bucket.startMs).getUTCDay() === 1)).toBe(true);
+    expect(buckets[buckets.length - 1].endMs).toBe(Date.UTC(2025, 1, 1) - 1);
+    expectContiguous(buckets);
+  });
+
+  // The suite runs in America/New_York, where clocks went forward on 9 March and back on 2 November 2025
+  it("gives each local day one bucket through the spring-forward change", () => {
+    const range = resolveRange({ preset: "7d", timeZone: "local" }, null, local(2025, 2, 12, 12));
+    const buckets = buildBuckets(range);
+    expect(buckets.map((bucket) => bucket.label)).toEqual(["3/6", "3/7", "3/8", "3/9", "3/10", "3/11", "3/12"]);
+    expect(buckets.every((bucket) => new Date(bucket.startMs).getHours() === 0)).toBe(true);
+    expect(buckets[3].endMs + 1 - buckets[3].startMs).toBe(23 * HOUR_MS);
+    expectContiguous(buckets);
+  });
+
+  it("gives each local day one bucket through the fall-back change", () => {
+    const range = resolveRange({ preset: "7d", timeZone: "local" }, null, local(2025, 10, 4, 12));
+    const buckets = buildBuckets(range);
+    expect(buckets.map((bucket) => bucket.label)).toEqual(["10/29", "10/30", "10/31", "11/1", "11/2", "11/3", "11/4"]);
+    expect(buckets[4].endMs + 1 - buckets[4].startMs).toBe(25 * HOUR_MS);
+    expectContiguous(buckets);
+  });
+
+  it("keeps UTC buckets at 24 hours whatever the local zone does", () => {
+    const range = resolveRange({ preset: "7d", timeZone: "utc" }, null, Date.UTC(2025, 2, 12, 12));
+    const buckets = buildBuckets(range);
+    expect(buckets.slice(0, -1).every((bucket) => bucket.endMs + 1 - bucket.startMs === 24 * HOUR_MS)).toBe(true);
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  DEFAULT_TIME_ZONE,
+  type TimeZoneMode,
+  addDays,
+  addMonths,
+  endOfDay,
+  formatDate,
+  formatDayLabel,
+  parseDayKey,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "@/lib/dates";
+
+export type RangePreset = "7d" | "30d" | "90d" | "1y" | "all" | "custom";
+
+export type BucketSize = "day" | "week" | "month";
+
+// What the user picked; custom dates are `YYYY-MM-DD` strings from <input type="date">
+export interface RangeSpec {
+  preset: RangePreset;
+  customStart?: string;
+  customEnd?: string;
+  // Which calendar days are counted in; defaults to the viewer's local zone
+  timeZone?: TimeZoneMode;
+}
+
+// Resolved, inclusive window in ms
+export interface TimeRange {
+  preset: RangePreset;
+  timeZone: TimeZoneMode;
+  startMs: number;
+  endMs: number;
+}
+
+export interface Bucket {
+  label: string;
+  startMs: number;
+  endMs: number;
+}
+
+export const RANGE_PRESETS: { value: RangePreset; label: string }[] = [
+  { value: "7d", label: "7D" },
+  { value: "30d", label: "30D" },
+  { value: "90d", label: "90D" },
+  { value: "1y", label: "1Y" },
+  { value: "all", label: "All" },
+  { value: "custom", label: "Custom" },
+];
+
+export const DEFAULT_RANGE: RangeSpec = { preset: "30d" };
+
+const PRESET_DAYS: Partial<Record<RangePreset, number>> = { "7d": 7, "30d": 30, "90d": 90, "1y": 365 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Turn a range selection into concrete bounds. `firstTxMs` anchors "all time" and incomplete custom ranges.
+export const resolveRange = (spec: RangeSpec, firstTxMs: number | null, now: number = Date.now()): TimeRange => {
+  const timeZone = spec.timeZone ?? DEFAULT_TIME_ZONE;
+  const days = PRESET_DAYS[spec.preset];
+  if (days) {
+    return { preset: spec.preset, timeZone, startMs: addDays(now, -(days - 1), timeZone), endMs: now };
+  }
+
+  const earliest = startOfDay(firstTxMs ?? now, timeZone);
+  if (spec.preset === "custom") {
+    const start = parseDayKey(spec.customStart, timeZone) ?? earliest;
+    const end = parseDayKey(spec.customEnd, timeZone);
+    const endMs = end === null ? now : Math.min(endOfDay(end, timeZone), now);
+    return { preset: "custom", timeZone, startMs: Math.min(start, endMs), endMs };
+  }
+
+  return { preset: "all", timeZone, startMs: Math.min(earliest, now), endMs: now };
+};
+
+// Keep bar charts readable: daily bars up to a month, weekly up to half a year, monthly beyond
+export const pickBucketSize = (range: TimeRange): BucketSize => {
+  const spanDays = (range.endMs - range.startMs) / DAY_MS;
+  if (spanDays <= 31) return "day";
+  if (spanDays <= 183) return "week";
+  return "month";
+};
+
+const bucketStart = (ms: number, size: BucketSize, tz: TimeZoneMode): number => {
+  if (size === "week") return startOfWeek(ms, tz);
+  if (size === "month") return startOfMonth(ms, tz);
+  return startOfDay(ms, tz);
+};
+
+const nextBucketStart = (ms: number, size: BucketSize, tz: TimeZoneMode): number => {
+  if (size === "week") return addDays(ms, 7, tz);
+  if (size === "month") return addMonths(ms, 1, tz);
+  return addDays(ms, 1, tz);
+};
+
+const bucketLabel = (ms: number, size: BucketSize, tz: TimeZoneMode): string => {
+  if (size === "month") return formatDate(ms, tz, { month: "short", year: "2-digit" });
+  return formatDayLabel(ms, tz);
+};
+
+// Split a range into consecutive calendar buckets; the first and last are clipped to the range
+export const buildBuckets = (range: TimeRange, size: BucketSize = pickBucketSize(range)): Bucket[] => {
+  const buckets: Bucket[] = [];
+  let cursor = bucketStart(range.startMs, size, range.timeZone);
+  while (cursor <= range.endMs) {
+    const next = nextBucketStart(cursor, size, range.timeZone);
+    buckets.push({
+      label: bucketLabel(cursor, size, range.timeZone),
+      startMs: Math.max(cursor, range.startMs),
+      endMs: Math.min(next - 1, range.endMs),
+    });
+    cursor = next;
+  }
+  return buckets;
+};
+
+// Index of the bucket containing `ms`, or -1 when it falls outside every bucket
+export const findBucketIndex = (buckets: Bucket[], ms: number): number => {
+  let lo = 0;
+  let hi = buckets.length - 1;
+  while (lo <= hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (ms < buckets[mid].startMs) {
+      hi = mid - 1;
+    } else if (ms > buckets[mid].endMs) {
+      lo = mid + 1;
+    } else {
+      return mid;
+    }
+  }
+  return -1;
+};
+
+// Human label for headings, e.g. "30-Day" or "All-Time"
+export const describeRange = (range: TimeRange): string => {
+  const days = PRESET_DAYS[range.preset];
+  if (days === 365) return "1-Year";
+  if (days) return `${days}-Day`;
+  if (range.preset === "all") return "All-Time";
+  return `${formatDate(range.startMs, range.timeZone)} – ${formatDate(range.endMs, range.timeZone)}`;
+};
+
+export const BUCKET_ADJECTIVE: Record<BucketSize, string> = { day: "Daily", week: "Weekly", month: "Monthly" };
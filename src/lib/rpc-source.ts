@@ -0,0 +1,198 @@
+import type { FetchHistoryOptions, TokenHistory } from "@/lib/etherscan";
+import { clientFor } from "@/lib/onchain";
+import { type TokenInfo, chainOf, tokenUnit } from "@/lib/tokens";
+import type { EtherscanTokenTx } from "@/lib/types";
+import { type Address, type Log, type PublicClient, erc20Abi, parseAbiItem } from "viem";
+
+const TRANSFER_EVENT = parseAbiItem("event Transfer(address indexed from, address indexed to, uint256 value)");
+
+const DEFAULT_CHUNK = 10_000n;
+const MIN_CHUNK = 100n;
+
+// A block count from the env; anything but a whole number of at least MIN_CHUNK falls back to the default
+const parseChunk = (value: string | undefined): bigint => {
+  const trimmed = value?.trim() ?? "";
+  if (!/^\d{1,12}$/.test(trimmed)) return DEFAULT_CHUNK;
+  const chunk = BigInt(trimmed);
+  return chunk >= MIN_CHUNK ? chunk : DEFAULT_CHUNK;
+};
+
+// Public endpoints cap eth_getLogs ranges; the chunk halves on errors until it fits
+const INITIAL_CHUNK = parseChunk(import.meta.env.VITE_RPC_LOG_CHUNK);
+// Same role as Etherscan's MAX_REQUESTS: a runaway scan stops and marks the history capped
+const MAX_LOG_REQUESTS = 2_000;
+// Block and transaction lookups in flight at once; the batching transport folds them into few HTTP calls
+const DETAIL_CONCURRENCY = 50;
+
+type TransferLog = Log<bigint, number, false, typeof TRANSFER_EVENT, true>;
+
+// RPC failure with a message that is safe to show to the user
+export class RpcSourceError extends Error {
+  name = "RpcSourceError";
+}
+
+// Deploy block searches by token id
+const deployBlocks = new Map<string, Promise<bigint>>();
+
+// First block holding the token's code; nothing can be logged before it. Binary search over eth_getCode needs an
+// archive node, so a registry `deployBlock` skips the search where that isn't available.
+const findDeployBlock = (token: TokenInfo, client: PublicClient): Promise<bigint> => {
+  if (token.deployBlock !== undefined) return Promise.resolve(BigInt(token.deployBlock));
+
+  let search = deployBlocks.get(token.id);
+  if (!search) {
+    search = (async () => {
+      let low = 0n;
+      let high = await client.getBlockNumber();
+      while (low < high) {
+        const mid = (low + high) / 2n;
+        const code = await client.getCode({ address: token.contract, blockNumber: mid });
+        if (code && code !== "0x") high = mid;
+        else low = mid + 1n;
+      }
+      return low;
+    })().catch((err) => {
+      deployBlocks.delete(token.id);
+      console.error("Deploy block search failed:", err);
+      throw new RpcSourceError(
+        `Could not locate the ${tokenUnit(token)} contract on this RPC endpoint. Set its deployBlock in token-registry.json or use an archive node.`,
+      );
+    });
+    deployBlocks.set(token.id, search);
+  }
+  return search;
+};
+
+const fetchTokenMeta = async (token: TokenInfo, client: PublicClient) => {
+  const [symbol, name, decimals] = await Promise.all([
+    client.readContract({ address: token.contract, abi: erc20Abi, functionName: "symbol" }),
+    client.readContract({ address: token.contract, abi: erc20Abi, functionName: "name" }),
+    client.readContract({ address: token.contract, abi: erc20Abi, functionName: "decimals" }),
+  ]);
+  return { symbol, name, decimals };
+};
+
+// Transfers into and out of `address` between two blocks, inclusive
+const fetchLogRange = async (
+  token: TokenInfo,
+  client: PublicClient,
+  address: Address,
+  fromBlock: bigint,
+  toBlock: bigint,
+): Promise<TransferLog[]> => {
+  const [sent, received] = await Promise.all([
+    client.getLogs({
+      address: token.contract,
+      event: TRANSFER_EVENT,
+      args: { from: address },
+      fromBlock,
+      toBlock,
+      strict: true,
+    }),
+    client.getLogs({
+      address: token.contract,
+      event: TRANSFER_EVENT,
+      args: { to: address },
+      fromBlock,
+      toBlock,
+      strict: true,
+    }),
+  ]);
+  return [...sent, ...received];
+};
+
+// Run `fn` over `items` with at most `limit` calls pending
+const mapConcurrent = async <T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += limit) {
+    results.push(...(await Promise.all(items.slice(i, i + limit).map(fn))));
+  }
+  return results;
+};
+
+// Read an address's transfer history of one token straight from Transfer logs, shaped like Etherscan tokentx rows
+export const fetchRpcHistory = async (
+  token: TokenInfo,
+  address: string,
+  options: FetchHistoryOptions = {},
+): Promise<TokenHistory> => {
+  const owner = address as Address;
+  const client = clientFor(chainOf(token));
+  const [startBlock, latest, meta] = await Promise.all([
+    options.startBlock ? Promise.resolve(BigInt(options.startBlock)) : findDeployBlock(token, client),
+    client.getBlockNumber(),
+    fetchTokenMeta(token, client),
+  ]);
+
+  const logs = new Map<string, TransferLog>();
+  let chunk = INITIAL_CHUNK;
+  let fromBlock = startBlock;
+  let requests = 0;
+  let capped = false;
+  // The whole range up to `latest` counts as read once every chunk is done, rows or not
+  let scannedTo = Number(startBlock);
+
+  while (fromBlock <= latest) {
+    if (requests >= MAX_LOG_REQUESTS) {
+      capped = true;
+      break;
+    }
+
+    const toBlock = fromBlock + chunk - 1n < latest ? fromBlock + chunk - 1n : latest;
+    let batch: TransferLog[];
+    try {
+      batch = await fetchLogRange(token, client, owner, fromBlock, toBlock);
+      requests++;
+    } catch (err) {
+      requests++;
+      if (chunk <= MIN_CHUNK) {
+        console.error("getLogs failed:", err);
+        throw new RpcSourceError("The RPC endpoint refused the transfer log query. Try again or use another endpoint.");
+      }
+      // Usually "block range too large" or "too many results"; retry the same start with a smaller window
+      chunk /= 2n;
+      continue;
+    }
+
+    // A self-transfer matches both queries; key by log position
+    for (const log of batch) logs.set(`${log.transactionHash}-${log.logIndex}`, log);
+    scannedTo = Number(toBlock);
+    options.onProgress?.({ requests, rows: logs.size, lastBlock: scannedTo });
+    fromBlock = toBlock + 1n;
+  }
+
+  const sorted = [...logs.values()].sort((a, b) => Number(a.blockNumber - b.blockNumber) || a.logIndex - b.logIndex);
+
+  // tokentx rows carry a timestamp and the calling method; logs have neither, so fetch blocks and transactions
+  const blockNumbers = [...new Set(sorted.map((log) => log.blockNumber))];
+  const hashes = [...new Set(sorted.map((log) => log.transactionHash))];
+  const [blocks, transactions] = await Promise.all([
+    mapConcurrent(blockNumbers, DETAIL_CONCURRENCY, (blockNumber) => client.getBlock({ blockNumber })),
+    mapConcurrent(hashes, DETAIL_CONCURRENCY, (hash) => client.getTransaction({ hash })),
+  ]);
+  const timestamps = new Map(blocks.map((block) => [block.number, block.timestamp]));
+  const inputs = new Map(transactions.map((tx) => [tx.hash, tx.input]));
+
+  const rows: EtherscanTokenTx[] = sorted.map((log) => {
+    const input = inputs.get(log.transactionHash) ?? "0x";
+    return {
+      blockNumber: log.blockNumber.toString(),
+      timeStamp: (timestamps.get(log.blockNumber) ?? 0n).toString(),
+      hash: log.transactionHash,
+      blockHash: log.blockHash,
+      from: log.args.from,
+      to: log.args.to,
+      value: log.args.value.toString(),
+      contractAddress: token.contract.toLowerCase(),
+      tokenName: meta.name,
+      tokenSymbol: meta.symbol,
+      tokenDecimal: String(meta.decimals),
+      transactionIndex: String(log.transactionIndex),
+      logIndex: String(log.logIndex),
+      input,
+      methodId: input.slice(0, 10),
+    };
+  });
+
+  return { rows, capped, scannedTo };
+};
@@ -0,0 +1,59 @@
+import registry from "@/lib/token-registry.json";
+import type { Address } from "viem";
+
+// token-registry.json is shared with the Netlify functions, so the proxy only allows what the app can select
+export interface ChainInfo {
+  id: number;
+  name: string;
+  // Block explorer, e.g. "Basescan" at https://basescan.org
+  explorerName: string;
+  explorerUrl: string;
+  // CoinGecko's platform id for contract price lookups
+  coingeckoPlatform: string;
+}
+
+export interface TokenInfo {
+  // Stable key used in URLs, storage and the prices function
+  id: string;
+  symbol: string;
+  name: string;
+  contract: Address;
+  decimals: number;
+  chainId: number;
+  // First block to scan for logs over RPC; found by searching the chain when missing
+  deployBlock?: number;
+  // Traded on Bracky's share markets. Share categories, per-market P&L and share stats only apply to these tokens.
+  markets?: boolean;
+}
+
+const SELECTED_KEY = "bracky-tracker:token";
+
+export const CHAINS: ChainInfo[] = registry.chains;
+
+const registryTokens: (Omit<TokenInfo, "contract"> & { contract: string })[] = registry.tokens;
+
+export const TOKENS: TokenInfo[] = registryTokens.map((token) => ({ ...token, contract: token.contract as Address }));
+
+for (const token of TOKENS) {
+  if (!CHAINS.some((chain) => chain.id === token.chainId)) {
+    throw new Error(`token-registry.json: ${token.id} is on unknown chain ${token.chainId}`);
+  }
+}
+
+// $BRACKY on Base; what old links and saved histories refer to
+export const DEFAULT_TOKEN = TOKENS[0];
+
+export const findToken = (id: string | null | undefined): TokenInfo | null =>
+  TOKENS.find((token) => token.id === id) ?? null;
+
+export const chainOf = (token: TokenInfo): ChainInfo => CHAINS.find((chain) => chain.id === token.chainId) ?? CHAINS[0];
+
+// "$BRACKY"; the unit next to every amount
+export const tokenUnit = (token: TokenInfo): string => `$${token.symbol}`;
+
+// "$USDC on Base" for messages; the chain tells apart the same symbol deployed on several networks
+export const tokenLabel = (token: TokenInfo): string => `${tokenUnit(token)} on ${chainOf(token).name}`;
+
+export const loadSelectedToken = (): TokenInfo => findToken(localStorage.getItem(SELECTED_KEY)) ?? DEFAULT_TOKEN;
+
+export const saveSelectedToken = (token: TokenInfo) => localStorage.setItem(SELECTED_KEY, token.id);
@@ -0,0 +1,113 @@
+import { CATEGORY_LABELS, type TransferCategory } from "@/lib/classify";
+import { DEFAULT_TIME_ZONE, type TimeZoneMode, addDays, parseDayKey } from "@/lib/dates";
+import { counterpartyOf } from "@/lib/export";
+import { lookupAddress } from "@/lib/known-addresses";
+import { shortAddress } from "@/lib/ledger";
+import type { ClassifiedTransfer, TransferDirection } from "@/lib/types";
+import { parseUnits } from "viem";
+
+export type TransferSortKey = "amount" | "time" | "direction" | "category" | "counterparty";
+
+export interface TransferSort {
+  key: TransferSortKey;
+  descending: boolean;
+}
+
+// Table filters as typed: amounts in whole tokens, dates as `YYYY-MM-DD`; blank fields don't filter
+export interface TransferFilters {
+  search: string;
+  category: TransferCategory | "all";
+  minAmount: string;
+  maxAmount: string;
+  fromDate: string;
+  toDate: string;
+}
+
+export const DEFAULT_SORT: TransferSort = { key: "time", descending: true };
+
+export const EMPTY_FILTERS: TransferFilters = {
+  search: "",
+  category: "all",
+  minAmount: "",
+  maxAmount: "",
+  fromDate: "",
+  toDate: "",
+};
+
+export const PAGE_SIZE = 50;
+
+const DIRECTION_ORDER: Record<TransferDirection, number> = { in: 0, out: 1, internal: 2, none: 3 };
+
+// Known contracts first, then resolved names, then the short hex form
+export const counterpartyName = (address: string, names: Record<string, string>): string =>
+  lookupAddress(address)?.name ?? names[address.toLowerCase()] ?? shortAddress(address);
+
+// A half-typed or malformed amount is ignored rather than filtering everything out
+const parseAmount = (value: string, decimals: number): bigint | null => {
+  try {
+    return value.trim() ? parseUnits(value.trim(), decimals) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const filterTransfers = (
+  transfers: ClassifiedTransfer[],
+  filters: TransferFilters,
+  names: Record<string, string> = {},
+  tz: TimeZoneMode = DEFAULT_TIME_ZONE,
+): ClassifiedTransfer[] => {
+  const search = filters.search.trim().toLowerCase();
+  const from = parseDayKey(filters.fromDate, tz);
+  const to = parseDayKey(filters.toDate, tz);
+  // The end date is inclusive: everything before the following midnight
+  const toEnd = to === null ? null : addDays(to, 1, tz);
+
+  return transfers.filter((tx) => {
+    if (filters.category !== "all" && tx.category !== filters.category) return false;
+    if (from !== null && tx.timeMs < from) return false;
+    if (toEnd !== null && tx.timeMs >= toEnd) return false;
+
+    const min = parseAmount(filters.minAmount, tx.decimals);
+    const max = parseAmount(filters.maxAmount, tx.decimals);
+    if (min !== null && tx.value < min) return false;
+    if (max !== null && tx.value > max) return false;
+
+    if (!search) return true;
+    const counterparty = counterpartyOf(tx);
+    return [tx.hash, counterparty, counterpartyName(counterparty, names), CATEGORY_LABELS[tx.category]].some((field) =>
+      field.toLowerCase().includes(search),
+    );
+  });
+};
+
+const compareBy = (key: TransferSortKey, names: Record<string, string>) => {
+  switch (key) {
+    case "amount":
+      return (a: ClassifiedTransfer, b: ClassifiedTransfer) => (a.value === b.value ? 0 : a.value < b.value ? -1 : 1);
+    case "direction":
+      return (a: ClassifiedTransfer, b: ClassifiedTransfer) =>
+        DIRECTION_ORDER[a.direction] - DIRECTION_ORDER[b.direction];
+    case "category":
+      return (a: ClassifiedTransfer, b: ClassifiedTransfer) =>
+        CATEGORY_LABELS[a.category].localeCompare(CATEGORY_LABELS[b.category]);
+    case "counterparty":
+      return (a: ClassifiedTransfer, b: ClassifiedTransfer) =>
+        counterpartyName(counterpartyOf(a), names).localeCompare(counterpartyName(counterpartyOf(b), names));
+    default:
+      return (a: ClassifiedTransfer, b: ClassifiedTransfer) => a.timeMs - b.timeMs;
+  }
+};
+
+// Sort a copy; ties fall back to time (newest first) so equal rows keep a stable, meaningful order
+export const sortTransfers = (
+  transfers: ClassifiedTransfer[],
+  sort: TransferSort,
+  names: Record<string, string> = {},
+): ClassifiedTransfer[] => {
+  const compare = compareBy(sort.key, names);
+  return [...transfers].sort(
+    (a, b) =>
+      (sort.descending ? compare(b, a) : compare(a, b)) || b.timeMs - a.timeMs || (b.logIndex ?? 0) - (a.logIndex ?? 0),
+  );
+};
@@ -0,0 +1,134 @@
+import type { ActivitySummary } from "@/lib/activity";
+import type { TransferCategory } from "@/lib/classify";
+import type { PnlResult } from "@/lib/pnl";
+import type { BucketSize, TimeRange } from "@/lib/range";
+
+// Raw row returned by Etherscan's `account/tokentx` endpoint. Every field is a string on the wire.
+export interface EtherscanTokenTx {
+  blockNumber: string;
+  timeStamp: string;
+  hash: string;
+  nonce?: string;
+  blockHash?: string;
+  from: string;
+  contractAddress: string;
+  to: string;
+  value: string;
+  tokenName?: string;
+  tokenSymbol: string;
+  tokenDecimal: string;
+  tokenID?: string;
+  transactionIndex?: string;
+  logIndex?: string;
+  gas?: string;
+  gasPrice?: string;
+  gasUsed?: string;
+  cumulativeGasUsed?: string;
+  input?: string;
+  methodId?: string;
+  functionName?: string;
+  confirmations?: string;
+  action?: string;
+}
+
+// Normalized ERC-20 transfer. Addresses are lowercased, timestamps are in ms.
+export interface Transfer {
+  hash: string;
+  blockNumber: number;
+  logIndex: number | null;
+  timeMs: number;
+  from: string;
+  to: string;
+  contractAddress: string;
+  // Exact amount in token base units
+  value: bigint;
+  decimals: number;
+  symbol: string;
+  functionName: string;
+  methodId: string;
+  input: string;
+}
+
+export type TransferDirection = "in" | "out" | "internal" | "none";
+
+// A transfer seen from the tracked owner's side
+export interface ClassifiedTransfer extends Transfer {
+  direction: TransferDirection;
+  category: TransferCategory;
+}
+
+export interface CategoryTotal {
+  count: number;
+  volume: bigint;
+}
+
+// A single tracked address or a portfolio of addresses treated as one holder
+export type Owner = string | string[];
+
+// Chart series carry plain numbers converted from exact totals, since recharts plots floats
+export interface TransactionData {
+  label: string;
+  received: number;
+  sent: number;
+  net: number;
+}
+
+export interface BalanceChartData {
+  label: string;
+  balance: number;
+  // End of the bucket the balance is read at, for pricing the point
+  endMs: number;
+}
+
+// Token amounts are exact base-unit integers; format them with `formatTokenAmount` for display
+export interface Stats {
+  address: string;
+  decimals: number;
+  totalReceived: bigint;
+  totalSent: bigint;
+  // Balance derived from transfers alone (totalReceived - totalSent)
+  netBalance: bigint;
+  totalTransactions: number;
+  receiveCount: number;
+  sendCount: number;
+  // Transfers between two wallets of the same portfolio; excluded from received/sent
+  internalCount: number;
+  // On-chain balance when available, otherwise the derived netBalance
+  currentBalance: bigint;
+  onChainBalance: bigint | null;
+  // onChainBalance - netBalance; non-zero means the transfer history doesn't explain the real balance
+  balanceDiscrepancy: bigint;
+  // Balances at the edges of the selected range and the net flow inside it
+  balanceAtRangeStart: bigint;
+  balanceAtRangeEnd: bigint;
+  netChange: bigint;
+  buySharesTotal: bigint;
+  buySharesCount: number;
+  categoryTotals: Record<TransferCategory, CategoryTotal>;
+  activeStreak: number;
+  walletCreatedDate: string;
+  firstTransferMs: number | null;
+}
+
+export interface LedgerResult {
+  transfers: ClassifiedTransfer[];
+  stats: Stats;
+  range: TimeRange;
+  bucketSize: BucketSize;
+  periodTx: TransactionData[];
+  balanceChart: BalanceChartData[];
+  pnl: PnlResult;
+  activity: ActivitySummary;
+}
+
+// Everything fetched for one tracked address
+export interface WalletData {
+  address: string;
+  rows: EtherscanTokenTx[];
+  capped: boolean;
+  onChainBalance: bigint | null;
+  // When the history was last synced with the data source (ms)
+  updatedAt: number;
+  // True when the sync failed and a previously saved history is shown instead
+  offline: boolean;
+}
@@ -0,0 +1,125 @@
+import type { StoredHistory } from "@/lib/history-store";
+import { processTransactionData, shortAddress } from "@/lib/ledger";
+import { isAddress } from "@/lib/portfolio";
+
+const WATCHLIST_KEY = "bracky-tracker:watchlist";
+const EXPORT_VERSION = 1;
+
+// A wallet the user chose to keep an eye on, keyed by lowercase address
+export interface WatchlistEntry {
+  address: string;
+  label: string;
+  note: string;
+  addedAt: number;
+}
+
+// Headline numbers for a watchlist card, read from the history saved in this browser
+export interface WatchlistSummary {
+  balance: bigint;
+  change7d: bigint;
+  streak: number;
+  decimals: number;
+  updatedAt: number;
+}
+
+// Import failure with a message that is safe to show to the user
+export class WatchlistImportError extends Error {
+  name = "WatchlistImportError";
+}
+
+export const loadWatchlist = (): WatchlistEntry[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(WATCHLIST_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveWatchlist = (entries: WatchlistEntry[]) =>
+  localStorage.setItem(WATCHLIST_KEY, JSON.stringify(entries));
+
+// Add wallets that aren't on the list yet; existing entries keep their labels and notes
+export const addToWatchlist = (
+  entries: WatchlistEntry[],
+  addresses: string[],
+  labels: Record<string, string> = {},
+  now: number = Date.now(),
+): WatchlistEntry[] => {
+  const known = new Set(entries.map((entry) => entry.address));
+  const added = [...new Set(addresses.map((address) => address.toLowerCase()))]
+    .filter((address) => !known.has(address))
+    .map((address) => ({ address, label: labels[address] ?? "", note: "", addedAt: now }));
+  return [...entries, ...added];
+};
+
+export const updateWatchlistEntry = (
+  entries: WatchlistEntry[],
+  address: string,
+  changes: Partial<Pick<WatchlistEntry, "label" | "note">>,
+): WatchlistEntry[] =>
+  entries.map((entry) => (entry.address === address.toLowerCase() ? { ...entry, ...changes } : entry));
+
+export const removeFromWatchlist = (entries: WatchlistEntry[], address: string): WatchlistEntry[] =>
+  entries.filter((entry) => entry.address !== address.toLowerCase());
+
+export const exportWatchlist = (entries: WatchlistEntry[]): string =>
+  JSON.stringify({ version: EXPORT_VERSION, exportedAt: new Date().toISOString(), wallets: entries }, null, 2);
+
+const readString = (value: unknown): string => (typeof value === "string" ? value.trim() : "");
+
+// Accept our own export or a bare array of entries (or addresses); reject the whole file on any bad address
+export const parseWatchlistImport = (text: string, now: number = Date.now()): WatchlistEntry[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new WatchlistImportError("That file isn't valid JSON.");
+  }
+
+  const items = Array.isArray(parsed) ? parsed : (parsed as { wallets?: unknown } | null)?.wallets;
+  if (!Array.isArray(items)) throw new WatchlistImportError("Expected a list of wallets under `wallets`.");
+
+  const entries = new Map<string, WatchlistEntry>();
+  for (const [index, item] of items.entries()) {
+    const fields = (typeof item === "string" ? { address: item } : (item ?? {})) as Record<string, unknown>;
+    const address = readString(fields.address);
+    if (!isAddress(address)) {
+      throw new WatchlistImportError(`Wallet ${index + 1} doesn't have a valid 0x address.`);
+    }
+    entries.set(address.toLowerCase(), {
+      address: address.toLowerCase(),
+      label: readString(fields.label),
+      note: readString(fields.note),
+      addedAt: typeof fields.addedAt === "number" ? fields.addedAt : now,
+    });
+  }
+  return [...entries.values()];
+};
+
+// Imported entries win over existing ones for the same address; order follows the current list, then new wallets
+export const mergeWatchlists = (current: WatchlistEntry[], imported: WatchlistEntry[]): WatchlistEntry[] => {
+  const incoming = new Map(imported.map((entry) => [entry.address, entry]));
+  const merged = current.map((entry) => incoming.get(entry.address) ?? entry);
+  const known = new Set(current.map((entry) => entry.address));
+  return [...merged, ...imported.filter((entry) => !known.has(entry.address))];
+};
+
+export const summarizeHistory = (history: StoredHistory, now: number = Date.now()): WatchlistSummary => {
+  const { stats } = processTransactionData(history.rows, history.address, {
+    now,
+    range: { preset: "7d" },
+    onChainBalance: history.onChainBalance,
+  });
+  return {
+    balance: stats.currentBalance,
+    change7d: stats.netChange,
+    streak: stats.activeStreak,
+    decimals: stats.decimals,
+    updatedAt: history.updatedAt,
+  };
+};
+
+// The user's label, else a resolved name, else the short hex form
+export const watchlistLabel = (entry: WatchlistEntry, names: Record<string, string> = {}): string =>
+  entry.label || names[entry.address] || shortAddress(entry.address);
@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_BASE_RPC_URL?: string;
+  readonly VITE_ETHEREUM_RPC_URL?: string;
+  readonly VITE_BRACKY_MARKET_ADDRESSES?: string;
+  readonly VITE_DATA_SOURCE?: string;
+  readonly VITE_RPC_LOG_CHUNK?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}